@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { getTokensByCreator } from '@/utils/helius';
+import { isTokenDataProviderConfigured } from '@/utils/tokenDataProvider';
+import { serializeTokenInfo, type ApiErrorResponse, type CreatorResponse } from '@/utils/api';
+
+const DEFAULT_SCAN_DEPTH = 1000;
+const MAX_SCAN_DEPTH = 5000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  try {
+    new PublicKey(address);
+  } catch {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Invalid wallet address' }, { status: 400 });
+  }
+
+  const depthParam = request.nextUrl.searchParams.get('depth');
+  const depth = depthParam ? Number(depthParam) : DEFAULT_SCAN_DEPTH;
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_SCAN_DEPTH) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error: `depth must be an integer between 1 and ${MAX_SCAN_DEPTH}` },
+      { status: 400 }
+    );
+  }
+  if (!isTokenDataProviderConfigured()) {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Creator lookup is not configured' }, { status: 503 });
+  }
+
+  try {
+    const tokens = await getTokensByCreator(address, depth);
+    return NextResponse.json<CreatorResponse>({ creator: address, tokens: tokens.map(serializeTokenInfo) });
+  } catch (error) {
+    console.error('Error in /api/creator:', error);
+    return NextResponse.json<ApiErrorResponse>({ error: 'Failed to look up creator tokens' }, { status: 502 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { TokenInfo } from '@/utils/helius';
+import { isTokenDataProviderConfigured } from '@/utils/tokenDataProvider';
+import { addFeedListener, getRecentMints } from '@/utils/mintFeed';
+import { serializeTokenInfo, type ApiErrorResponse } from '@/utils/api';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Server-sent events stream of newly initialized mints
+export async function GET(request: NextRequest) {
+  if (!isTokenDataProviderConfigured()) {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Live feed is not configured' }, { status: 503 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+        }
+      };
+      const sendToken = (token: TokenInfo) => {
+        send(`event: token\ndata: ${JSON.stringify(serializeTokenInfo(token))}\n\n`);
+      };
+
+      // Replay the buffer so the page is not empty on connect
+      for (const token of getRecentMints()) {
+        sendToken(token);
+      }
+
+      const removeListener = addFeedListener(sendToken);
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        removeListener();
+        cleanup = null;
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
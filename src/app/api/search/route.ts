@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchTokens } from '@/utils/helius';
+import { isTokenDataProviderConfigured } from '@/utils/tokenDataProvider';
+import { serializeTokenInfo, type ApiErrorResponse, type SearchResponse } from '@/utils/api';
+import { createExportResponse } from '@/utils/export';
+import { parseSearchRequest } from './searchRequest';
+
+export async function GET(request: NextRequest) {
+  const parsed = parseSearchRequest(request.nextUrl.searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json<ApiErrorResponse>({ error: parsed.error }, { status: 400 });
+  }
+  if (!isTokenDataProviderConfigured()) {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Token search is not configured' }, { status: 503 });
+  }
+
+  try {
+    const result = await searchTokens(parsed.query, parsed.options);
+    if (parsed.format) {
+      return createExportResponse(result.tokens.map(serializeTokenInfo), parsed.format, parsed.query, parsed.query);
+    }
+    return NextResponse.json<SearchResponse>({
+      query: parsed.query,
+      tokens: result.tokens.map(serializeTokenInfo),
+      hasMore: result.hasMore,
+      cursor: result.cursor,
+      scanned: result.scanned,
+      usage: result.usage,
+    });
+  } catch (error) {
+    console.error('Error in /api/search:', error);
+    return NextResponse.json<ApiErrorResponse>({ error: 'Failed to search tokens' }, { status: 502 });
+  }
+}
@@ -0,0 +1,56 @@
+import { MAX_SCAN_DEPTH, parseSearchCursor, SearchOptions } from '@/utils/helius';
+import { EXPORT_FORMATS, ExportFormat, isExportFormat } from '@/utils/export';
+import { parseSearchFilters } from '@/utils/searchFilters';
+
+const MAX_QUERY_LENGTH = 100;
+
+export type SearchRequest =
+  | {
+      query: string;
+      options: Pick<SearchOptions, 'cursor' | 'scanDepth' | 'minScore' | 'filters' | 'sort'>;
+      // Respond with a CSV or JSON download instead of the API response
+      format?: ExportFormat;
+    }
+  | { error: string };
+
+// Validate the query string shared by /api/search and /api/search/stream
+export function parseSearchRequest(searchParams: URLSearchParams): SearchRequest {
+  const query = searchParams.get('q')?.trim() || '';
+  const cursor = searchParams.get('cursor');
+  const depthParam = searchParams.get('depth');
+  const scanDepth = depthParam ? Number(depthParam) : undefined;
+  const minScoreParam = searchParams.get('minScore');
+  const minScore = minScoreParam ? Number(minScoreParam) : undefined;
+  const format = searchParams.get('format');
+
+  if (!query) {
+    return { error: 'Missing search query' };
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return { error: `Search query must be at most ${MAX_QUERY_LENGTH} characters` };
+  }
+  if (cursor && !parseSearchCursor(cursor)) {
+    return { error: 'Invalid cursor' };
+  }
+  if (scanDepth !== undefined && (!Number.isInteger(scanDepth) || scanDepth < 1 || scanDepth > MAX_SCAN_DEPTH)) {
+    return { error: `depth must be an integer between 1 and ${MAX_SCAN_DEPTH}` };
+  }
+  if (minScore !== undefined && (!Number.isFinite(minScore) || minScore < 0 || minScore > 100)) {
+    return { error: 'minScore must be a number between 0 and 100' };
+  }
+
+  const filtered = parseSearchFilters(searchParams);
+  if ('error' in filtered) {
+    return filtered;
+  }
+
+  if (format !== null && !isExportFormat(format)) {
+    return { error: `format must be one of ${EXPORT_FORMATS.join(', ')}` };
+  }
+
+  return {
+    query,
+    options: { cursor, scanDepth, minScore, filters: filtered.filters, sort: filtered.sort },
+    format: format ?? undefined
+  };
+}
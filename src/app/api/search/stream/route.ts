@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchTokens } from '@/utils/helius';
+import { isTokenDataProviderConfigured } from '@/utils/tokenDataProvider';
+import {
+  serializeTokenInfo,
+  type ApiErrorResponse,
+  type SearchStreamEvent,
+} from '@/utils/api';
+import { parseSearchRequest } from '../searchRequest';
+
+export const dynamic = 'force-dynamic';
+
+// Server-sent events version of /api/search: `token` and `progress` events
+// while the search runs, then `done` with the ranked page, or `error`.
+// Closing the connection cancels the search.
+export async function GET(request: NextRequest) {
+  const parsed = parseSearchRequest(request.nextUrl.searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json<ApiErrorResponse>({ error: parsed.error }, { status: 400 });
+  }
+  if (parsed.format) {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Use /api/search to export results' }, { status: 400 });
+  }
+  if (!isTokenDataProviderConfigured()) {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Token search is not configured' }, { status: 503 });
+  }
+
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  request.signal.addEventListener('abort', () => controller.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = ({ event, data }: SearchStreamEvent) => {
+        try {
+          streamController.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // Stream already closed
+        }
+      };
+
+      try {
+        const result = await searchTokens(parsed.query, {
+          ...parsed.options,
+          signal: controller.signal,
+          onToken: token => send({ event: 'token', data: serializeTokenInfo(token) }),
+          onProgress: scanned => send({ event: 'progress', data: { scanned } }),
+        });
+        send({
+          event: 'done',
+          data: {
+            query: parsed.query,
+            tokens: result.tokens.map(serializeTokenInfo),
+            hasMore: result.hasMore,
+            cursor: result.cursor,
+            scanned: result.scanned,
+            usage: result.usage,
+          },
+        });
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error in /api/search/stream:', error);
+          send({ event: 'error', data: { error: 'Failed to search tokens' } });
+        }
+      }
+
+      try {
+        streamController.close();
+      } catch {
+        // Stream already closed
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { getTokenActivity, MAX_ACTIVITY_LIMIT } from '@/utils/helius';
+import { isTokenDataProviderConfigured } from '@/utils/tokenDataProvider';
+import type { ActivityResponse, ApiErrorResponse } from '@/utils/api';
+
+// Signatures are base58-encoded 64-byte values
+const SIGNATURE_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{64,88}$/;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  const before = request.nextUrl.searchParams.get('before') || undefined;
+  const limitParam = request.nextUrl.searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : undefined;
+
+  try {
+    new PublicKey(address);
+  } catch {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Invalid token address' }, { status: 400 });
+  }
+  if (before && !SIGNATURE_PATTERN.test(before)) {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Invalid before signature' }, { status: 400 });
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_ACTIVITY_LIMIT)) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error: `limit must be an integer between 1 and ${MAX_ACTIVITY_LIMIT}` },
+      { status: 400 }
+    );
+  }
+  if (!isTokenDataProviderConfigured()) {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Token lookup is not configured' }, { status: 503 });
+  }
+
+  try {
+    const page = await getTokenActivity(address, { before, limit });
+    if (!page) {
+      return NextResponse.json<ApiErrorResponse>({ error: 'Token not found' }, { status: 404 });
+    }
+    return NextResponse.json<ActivityResponse>({ mint: address, ...page });
+  } catch (error) {
+    console.error('Error in /api/token/activity:', error);
+    return NextResponse.json<ApiErrorResponse>({ error: 'Failed to fetch token activity' }, { status: 502 });
+  }
+}
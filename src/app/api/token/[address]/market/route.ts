@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { getTokenMarket } from '@/utils/market';
+import { isTokenDataProviderConfigured } from '@/utils/tokenDataProvider';
+import type { ApiErrorResponse, MarketResponse } from '@/utils/api';
+
+// Market data on its own, so result cards can load it after the search
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  try {
+    new PublicKey(address);
+  } catch {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Invalid token address' }, { status: 400 });
+  }
+  if (!isTokenDataProviderConfigured()) {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Token lookup is not configured' }, { status: 503 });
+  }
+
+  try {
+    return NextResponse.json<MarketResponse>({ market: await getTokenMarket(address) });
+  } catch (error) {
+    console.error('Error in /api/token/market:', error);
+    return NextResponse.json<ApiErrorResponse>({ error: 'Failed to fetch market data' }, { status: 502 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { getTokenDetails } from '@/utils/helius';
+import { isTokenDataProviderConfigured } from '@/utils/tokenDataProvider';
+import { serializeTokenInfo, type ApiErrorResponse, type TokenResponse } from '@/utils/api';
+import { createExportResponse, EXPORT_FORMATS, isExportFormat } from '@/utils/export';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  const format = request.nextUrl.searchParams.get('format');
+
+  try {
+    new PublicKey(address);
+  } catch {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Invalid token address' }, { status: 400 });
+  }
+  if (format !== null && !isExportFormat(format)) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error: `format must be one of ${EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  if (!isTokenDataProviderConfigured()) {
+    return NextResponse.json<ApiErrorResponse>({ error: 'Token lookup is not configured' }, { status: 503 });
+  }
+
+  try {
+    const token = await getTokenDetails(address);
+    if (!token) {
+      return NextResponse.json<ApiErrorResponse>({ error: 'Token not found' }, { status: 404 });
+    }
+    if (format) {
+      return createExportResponse([serializeTokenInfo(token)], format, token.symbol || address);
+    }
+    return NextResponse.json<TokenResponse>({ token: serializeTokenInfo(token) });
+  } catch (error) {
+    console.error('Error in /api/token:', error);
+    return NextResponse.json<ApiErrorResponse>({ error: 'Failed to fetch token details' }, { status: 502 });
+  }
+}
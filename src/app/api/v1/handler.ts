@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { authenticateApiKey, isApiKeysConfigured, readApiKey, takeRateLimitToken } from '@/utils/apiKeys';
+import { trackRequestUsage } from '@/utils/requestScheduler';
+import { isTokenDataProviderConfigured } from '@/utils/tokenDataProvider';
+import { recordApiUsage } from '@/utils/tokenIndex';
+import type { ApiClient } from '@/utils/apiKeys';
+import type { V1ErrorCode, V1ErrorResponse } from './types';
+
+const ERROR_STATUS: Record<V1ErrorCode, number> = {
+  bad_request: 400,
+  unauthorized: 401,
+  not_found: 404,
+  rate_limited: 429,
+  upstream_error: 502,
+  not_configured: 503,
+};
+
+// Thrown by v1 handlers for failures the caller should see as is. Anything
+// else a handler throws is reported as an upstream_error.
+export class V1Error extends Error {
+  constructor(public readonly code: V1ErrorCode, message: string) {
+    super(message);
+    this.name = 'V1Error';
+  }
+}
+
+export function v1ErrorResponse(code: V1ErrorCode, message: string, headers?: HeadersInit): NextResponse {
+  return NextResponse.json<V1ErrorResponse>({ error: { code, message } }, { status: ERROR_STATUS[code], headers });
+}
+
+export function requireTokenDataProvider() {
+  if (!isTokenDataProviderConfigured()) {
+    throw new V1Error('not_configured', 'Token lookup is not configured');
+  }
+}
+
+export function requireMintAddress(address: string) {
+  try {
+    new PublicKey(address);
+  } catch {
+    throw new V1Error('bad_request', 'Invalid token address');
+  }
+}
+
+// An optional integer query parameter within [min, max]
+export function readIntegerParam(
+  params: URLSearchParams,
+  name: string,
+  min: number,
+  max: number
+): number | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new V1Error('bad_request', `${name} must be an integer between ${min} and ${max}`);
+  }
+  return number;
+}
+
+function recordUsageSafely(client: ApiClient, endpoint: string, status: number, rpcRequests = 0, rpcCredits = 0) {
+  try {
+    recordApiUsage(client.id, endpoint, { failed: status >= 400, rpcRequests, rpcCredits });
+  } catch (error) {
+    console.error('Error recording API usage:', error);
+  }
+}
+
+// Authenticate, rate limit and count a v1 request, then run its handler.
+// The endpoint names the route in usage counters, e.g. "tokens/holders".
+export async function handleV1Request(
+  request: NextRequest,
+  endpoint: string,
+  handler: (client: ApiClient) => Promise<NextResponse>
+): Promise<NextResponse> {
+  if (!isApiKeysConfigured()) {
+    return v1ErrorResponse('not_configured', 'No API keys are configured');
+  }
+
+  const client = authenticateApiKey(readApiKey(request.headers));
+  if (!client) {
+    return v1ErrorResponse('unauthorized', 'Missing or invalid API key', { 'WWW-Authenticate': 'Bearer' });
+  }
+
+  const rateLimit = takeRateLimitToken(client);
+  const rateLimitHeaders = {
+    'X-RateLimit-Limit': String(rateLimit.limit),
+    'X-RateLimit-Remaining': String(rateLimit.remaining),
+  };
+  if (!rateLimit.allowed) {
+    recordUsageSafely(client, endpoint, ERROR_STATUS.rate_limited);
+    return v1ErrorResponse('rate_limited', `Rate limit of ${rateLimit.limit} requests per minute exceeded`, {
+      ...rateLimitHeaders,
+      'Retry-After': String(rateLimit.retryAfter),
+    });
+  }
+
+  const { result: response, usage } = await trackRequestUsage(async () => {
+    try {
+      return await handler(client);
+    } catch (error) {
+      if (error instanceof V1Error) return v1ErrorResponse(error.code, error.message);
+      console.error(`Error in /api/v1/${endpoint}:`, error);
+      return v1ErrorResponse('upstream_error', 'Upstream request failed');
+    }
+  });
+
+  for (const [name, value] of Object.entries(rateLimitHeaders)) {
+    response.headers.set(name, value);
+  }
+  recordUsageSafely(client, endpoint, response.status, usage.requests, usage.credits);
+  return response;
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import openApiDocument from '../openapi.generated.json';
+
+// Public, so clients can read the API description before they have a key.
+// Regenerate the document with `npm run openapi` after changing ../types.ts.
+export function GET() {
+  return NextResponse.json(openApiDocument);
+}
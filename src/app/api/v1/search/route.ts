@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchTokens } from '@/utils/helius';
+import { serializeTokenInfo } from '@/utils/api';
+import { parseSearchRequest } from '../../search/searchRequest';
+import { handleV1Request, requireTokenDataProvider, V1Error } from '../handler';
+import type { V1SearchResponse } from '../types';
+
+export async function GET(request: NextRequest) {
+  return handleV1Request(request, 'search', async () => {
+    const parsed = parseSearchRequest(request.nextUrl.searchParams);
+    if ('error' in parsed) throw new V1Error('bad_request', parsed.error);
+    requireTokenDataProvider();
+
+    const result = await searchTokens(parsed.query, { ...parsed.options, signal: request.signal });
+    return NextResponse.json<V1SearchResponse>({
+      query: parsed.query,
+      tokens: result.tokens.map(serializeTokenInfo),
+      hasMore: result.hasMore,
+      cursor: result.cursor,
+      scanned: result.scanned,
+      usage: result.usage,
+    });
+  });
+}
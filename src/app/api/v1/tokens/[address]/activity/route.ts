@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenActivity, MAX_ACTIVITY_LIMIT } from '@/utils/helius';
+import {
+  handleV1Request,
+  readIntegerParam,
+  requireMintAddress,
+  requireTokenDataProvider,
+  V1Error,
+} from '../../../handler';
+import type { V1ActivityResponse } from '../../../types';
+
+// Signatures are base58-encoded 64-byte values
+const SIGNATURE_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{64,88}$/;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  return handleV1Request(request, 'tokens/activity', async () => {
+    requireMintAddress(address);
+    const before = request.nextUrl.searchParams.get('before') || undefined;
+    if (before && !SIGNATURE_PATTERN.test(before)) throw new V1Error('bad_request', 'Invalid before signature');
+    const limit = readIntegerParam(request.nextUrl.searchParams, 'limit', 1, MAX_ACTIVITY_LIMIT);
+    requireTokenDataProvider();
+
+    const page = await getTokenActivity(address, { before, limit });
+    if (!page) throw new V1Error('not_found', 'Token not found');
+    return NextResponse.json<V1ActivityResponse>({ mint: address, ...page });
+  });
+}
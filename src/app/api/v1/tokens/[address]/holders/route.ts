@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHolderAnalytics, isTokenMint } from '@/utils/helius';
+import { handleV1Request, requireMintAddress, requireTokenDataProvider, V1Error } from '../../../handler';
+import type { V1HoldersResponse } from '../../../types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  return handleV1Request(request, 'tokens/holders', async () => {
+    requireMintAddress(address);
+    requireTokenDataProvider();
+
+    if (!(await isTokenMint(address))) throw new V1Error('not_found', 'Token not found');
+    const holders = await getHolderAnalytics(address);
+    if (!holders) throw new V1Error('not_found', 'Token not found');
+    return NextResponse.json<V1HoldersResponse>({ mint: address, holders });
+  });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenDetails } from '@/utils/helius';
+import { serializeTokenInfo } from '@/utils/api';
+import { handleV1Request, requireMintAddress, requireTokenDataProvider, V1Error } from '../../handler';
+import type { V1TokenResponse } from '../../types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  return handleV1Request(request, 'tokens', async () => {
+    requireMintAddress(address);
+    requireTokenDataProvider();
+
+    const token = await getTokenDetails(address);
+    if (!token) throw new V1Error('not_found', 'Token not found');
+    return NextResponse.json<V1TokenResponse>({ token: serializeTokenInfo(token) });
+  });
+}
@@ -0,0 +1,134 @@
+import type { ActivityResponse, SearchResponse, TokenResponse } from '@/utils/api';
+import type { HolderAnalytics } from '@/utils/holders';
+import type { ApiUsageEntry } from '@/utils/tokenIndex';
+import type { AuthorityFilter, SearchSort, TokenKindFilter } from '@/utils/searchFilters';
+
+// Request and response shapes of the public /api/v1 routes. The OpenAPI
+// document is generated from this file (npm run openapi), so the comments on
+// these fields are the API's field descriptions.
+
+export type V1ErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'not_found'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'not_configured';
+
+// Every failed v1 request answers with this body
+export interface V1ErrorResponse {
+  error: {
+    code: V1ErrorCode;
+    message: string;
+  };
+}
+
+export interface V1SearchQuery {
+  // Ticker, name or mint address
+  q: string;
+  // Cursor from the previous page
+  cursor?: string;
+  // Signatures to scan per token program, 1-1000
+  depth?: number;
+  // Minimum relevance score, 0-100
+  minScore?: number;
+  // Mint date range as YYYY-MM-DD, both ends inclusive
+  from?: string;
+  to?: string;
+  // helius-das or on-chain
+  source?: string;
+  // Supply range in whole tokens
+  minSupply?: number;
+  maxSupply?: number;
+  kind?: TokenKindFilter;
+  authority?: AuthorityFilter;
+  // 1 drops tokens without a name or symbol
+  hideUnnamed?: 1;
+  sort?: SearchSort;
+}
+
+export type V1SearchResponse = SearchResponse;
+
+export interface V1TokenPath {
+  // Mint address
+  address: string;
+}
+
+export type V1TokenResponse = TokenResponse;
+
+export interface V1HoldersResponse {
+  mint: string;
+  holders: HolderAnalytics;
+}
+
+export interface V1ActivityQuery {
+  // Signature to continue before, the cursor from the previous page
+  before?: string;
+  // Transactions to read, 1-100
+  limit?: number;
+}
+
+export type V1ActivityResponse = ActivityResponse;
+
+export interface V1UsageQuery {
+  // Days of history, 1-90
+  days?: number;
+}
+
+export interface V1UsageResponse {
+  client: string;
+  requestsPerMinute: number;
+  usage: ApiUsageEntry[];
+}
+
+export interface V1Operation {
+  operationId: string;
+  path: string;
+  summary: string;
+  pathParams?: string;
+  query?: string;
+  response: string;
+  // Public operations need no API key
+  public?: boolean;
+}
+
+// The v1 operations, read by the OpenAPI generator. Parameters and responses
+// name the types above; every operation can also fail with V1ErrorResponse.
+export const V1_OPERATIONS: V1Operation[] = [
+  {
+    operationId: 'searchTokens',
+    path: '/search',
+    summary: 'Search tokens by ticker, name or address',
+    query: 'V1SearchQuery',
+    response: 'V1SearchResponse',
+  },
+  {
+    operationId: 'getToken',
+    path: '/tokens/{address}',
+    summary: 'Token details: metadata, authorities, creator, holders, market and risk',
+    pathParams: 'V1TokenPath',
+    response: 'V1TokenResponse',
+  },
+  {
+    operationId: 'getTokenHolders',
+    path: '/tokens/{address}/holders',
+    summary: 'Holder count, largest holders and concentration',
+    pathParams: 'V1TokenPath',
+    response: 'V1HoldersResponse',
+  },
+  {
+    operationId: 'getTokenActivity',
+    path: '/tokens/{address}/activity',
+    summary: 'Mint, burn, transfer and authority events, newest first',
+    pathParams: 'V1TokenPath',
+    query: 'V1ActivityQuery',
+    response: 'V1ActivityResponse',
+  },
+  {
+    operationId: 'getUsage',
+    path: '/usage',
+    summary: "The calling key's request counters per day and endpoint",
+    query: 'V1UsageQuery',
+    response: 'V1UsageResponse',
+  },
+];
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiUsage } from '@/utils/tokenIndex';
+import { handleV1Request, readIntegerParam } from '../handler';
+import type { V1UsageResponse } from '../types';
+
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 90;
+
+export async function GET(request: NextRequest) {
+  return handleV1Request(request, 'usage', async client => {
+    const days = readIntegerParam(request.nextUrl.searchParams, 'days', 1, MAX_USAGE_DAYS) ?? DEFAULT_USAGE_DAYS;
+    const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    return NextResponse.json<V1UsageResponse>({
+      client: client.id,
+      requestsPerMinute: client.requestsPerMinute,
+      usage: getApiUsage(client.id, since),
+    });
+  });
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeftIcon, PauseIcon, PlayIcon } from '@heroicons/react/24/outline';
+import type { SerializedTokenInfo } from '@/utils/api';
+import { getRiskyExtensions } from '@/utils/token2022';
+import { formatDateTime } from '@/utils/format';
+import TokenLogo from '@/components/TokenLogo';
+import RiskBadge from '@/components/RiskBadge';
+
+// Maximum number of mints kept on the page
+const MAX_FEED_ITEMS = 200;
+
+type ConnectionStatus = 'connecting' | 'live' | 'reconnecting';
+
+export default function FeedPage() {
+  const [tokens, setTokens] = useState<SerializedTokenInfo[]>([]);
+  const [pending, setPending] = useState<SerializedTokenInfo[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const pausedRef = useRef(paused);
+
+  useEffect(() => {
+    pausedRef.current = paused;
+  }, [paused]);
+
+  useEffect(() => {
+    const source = new EventSource('/api/feed');
+
+    source.onopen = () => setStatus('live');
+    source.onerror = () => setStatus('reconnecting');
+    source.addEventListener('token', (event) => {
+      const token: SerializedTokenInfo = JSON.parse((event as MessageEvent<string>).data);
+      const add = (list: SerializedTokenInfo[]) =>
+        list.some(t => t.address === token.address)
+          ? list
+          : [token, ...list].slice(0, MAX_FEED_ITEMS);
+
+      if (pausedRef.current) {
+        setPending(add);
+      } else {
+        setTokens(add);
+      }
+    });
+
+    return () => source.close();
+  }, []);
+
+  const togglePaused = () => {
+    if (paused) {
+      // Flush mints that arrived while paused
+      setTokens(current => {
+        const known = new Set(current.map(t => t.address));
+        return [...pending.filter(t => !known.has(t.address)), ...current].slice(0, MAX_FEED_ITEMS);
+      });
+      setPending([]);
+    }
+    setPaused(!paused);
+  };
+
+  const visibleTokens = useMemo(() => {
+    const query = filter.toLowerCase().trim();
+    if (!query) return tokens;
+    return tokens.filter(token =>
+      token.name.toLowerCase().includes(query) ||
+      token.symbol.toLowerCase().includes(query) ||
+      token.address.toLowerCase().includes(query)
+    );
+  }, [tokens, filter]);
+
+  return (
+    <main className="min-h-screen bg-[#0F172A] text-white">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <Link href="/" className="inline-flex items-center text-sm text-gray-400 hover:text-white mb-6">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to search
+        </Link>
+
+        <div className="flex items-center justify-between mb-2">
+          <h1 className="text-3xl font-bold text-purple-500">Live New Mints</h1>
+          <span className="flex items-center text-sm text-gray-400">
+            <span
+              className={`h-2 w-2 rounded-full mr-2 ${
+                status === 'live' ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'
+              }`}
+            />
+            {status === 'live' ? 'Live' : status === 'connecting' ? 'Connecting...' : 'Reconnecting...'}
+          </span>
+        </div>
+        <p className="text-gray-400 mb-6">
+          Tokens appear here as soon as their mint is initialized on-chain
+        </p>
+
+        <div className="flex gap-4 mb-6">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by name, ticker or address..."
+            className="flex-1 px-4 py-2 bg-gray-800 rounded-lg border border-gray-700 focus:outline-none focus:border-purple-500 text-white placeholder-gray-500"
+          />
+          <button
+            onClick={togglePaused}
+            className="flex items-center px-4 py-2 rounded-lg bg-purple-600 text-white font-semibold hover:bg-purple-700"
+          >
+            {paused ? (
+              <>
+                <PlayIcon className="h-5 w-5 mr-1" />
+                Resume{pending.length > 0 && ` (${pending.length} new)`}
+              </>
+            ) : (
+              <>
+                <PauseIcon className="h-5 w-5 mr-1" />
+                Pause
+              </>
+            )}
+          </button>
+        </div>
+
+        {visibleTokens.length === 0 ? (
+          <div className="text-center py-12 text-gray-400">
+            {tokens.length === 0 ? 'Waiting for new mints...' : 'No mints match this filter'}
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {visibleTokens.map((token) => {
+              const risky = getRiskyExtensions(token.extensions);
+              return (
+                <li key={token.address}>
+                  <Link
+                    href={`/token/${token.address}`}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-[#1E293B] border border-gray-800 hover:border-gray-700 transition-colors duration-200"
+                  >
+                    <TokenLogo image={token.image} symbol={token.symbol} size={32} />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline gap-2">
+                        <span className="font-medium truncate">{token.name}</span>
+                        <span className="text-blue-400 font-mono text-sm truncate">{token.symbol}</span>
+                      </div>
+                      <p className="font-mono text-xs text-gray-400 truncate">{token.address}</p>
+                    </div>
+                    <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                      {token.mintDate && (
+                        <span className="text-xs text-green-400">{formatDateTime(token.mintDate)}</span>
+                      )}
+                      <RiskBadge risk={token.risk} />
+                      {risky.length > 0 && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-red-900/60 text-red-300 border border-red-800">
+                          {risky.join(', ')}
+                        </span>
+                      )}
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,43 +1,238 @@
 'use client';
 
-import { useState } from 'react';
-import { searchTokens, TokenInfo } from '@/utils/helius';
-import { ClipboardIcon, ArrowTopRightOnSquareIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  ApiRequestError,
+  fetchCreatorTokens,
+  SearchResponse,
+  SerializedTokenInfo,
+  streamSearchResults,
+} from '@/utils/api';
+import { formatHolderCount, shortenAddress } from '@/utils/format';
+import { getRiskyExtensions } from '@/utils/token2022';
+import { groupClones } from '@/utils/clones';
+import { buildSearchUrl, parseSearchUrl, SearchMode, SearchUrlState, toSearchUrlParams } from '@/utils/searchUrl';
+import { countActiveFilters, SearchFilters, SearchSort, sortTokens } from '@/utils/searchFilters';
+import TokenLogo from '@/components/TokenLogo';
+import TokenLinks from '@/components/TokenLinks';
+import RiskBadge from '@/components/RiskBadge';
+import HighlightedText from '@/components/HighlightedText';
+import VerificationBadge from '@/components/VerificationBadge';
+import CloneList from '@/components/CloneList';
+import ExportButtons from '@/components/ExportButtons';
+import SearchFilterBar from '@/components/SearchFilterBar';
+import MarketSummary from '@/components/MarketSummary';
+import { ClipboardIcon, ArrowTopRightOnSquareIcon, InformationCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import { CheckCircleIcon } from '@heroicons/react/24/solid';
 
-export default function Home() {
+// Append tokens that are not in the list yet
+function mergeTokens(current: SerializedTokenInfo[], incoming: SerializedTokenInfo[]): SerializedTokenInfo[] {
+  const known = new Set(current.map(token => token.address));
+  return [...current, ...incoming.filter(token => !known.has(token.address))];
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function SearchPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const urlKey = searchParams.toString();
+  const [searchMode, setSearchMode] = useState<SearchMode>('token');
   const [searchQuery, setSearchQuery] = useState('');
-  const [tokens, setTokens] = useState<TokenInfo[]>([]);
+  const [tokens, setTokens] = useState<SerializedTokenInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [scanned, setScanned] = useState<SearchResponse['scanned'] | null>(null);
+  const [credits, setCredits] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Running totals of the search in progress
+  const [progress, setProgress] = useState<SearchResponse['scanned'] | null>(null);
+  const searchController = useRef<AbortController | null>(null);
+  // The search whose results are shown, as it is written in the URL
+  const [activeSearch, setActiveSearch] = useState<SearchUrlState | null>(null);
+  // Query string the page last loaded or wrote itself
+  const syncedUrl = useRef<string | null>(null);
+
+  // Abort the running search, if any, and return a signal for the next one
+  const startRequest = () => {
+    searchController.current?.abort();
+    searchController.current = new AbortController();
+    setProgress(null);
+    return searchController.current.signal;
+  };
 
+  const cancelSearch = () => {
+    searchController.current?.abort();
+    searchController.current = null;
+  };
+
+  const resetResults = () => {
+    setTokens([]);
+    setNextCursor(null);
+    setScanned(null);
+    setCredits(0);
+  };
+
+  const runSearch = async (search: SearchUrlState) => {
+    const signal = startRequest();
+    setActiveSearch(search);
+    setSearchMode(search.mode);
+    setSearchQuery(search.query);
+    setLoading(true);
+    setError(null);
+    resetResults();
+    setHasSearched(true);
+
+    try {
+      if (search.mode === 'creator') {
+        const { tokens: results } = await fetchCreatorTokens(search.query, { signal });
+        setTokens(results);
+      } else {
+        // Show tokens as they stream in, then the ranked page once it is done
+        const response = await streamSearchResults(search.query, {
+          cursor: search.cursor,
+          minScore: search.minScore,
+          filters: search.filters,
+          sort: search.sort,
+        }, {
+          onToken: token => setTokens(current => mergeTokens(current, [token])),
+          onProgress: ({ scanned }) => setProgress(scanned),
+        }, { signal });
+        setTokens(response.tokens);
+        setNextCursor(response.cursor);
+        setScanned(response.scanned);
+        setCredits(response.usage.credits);
+      }
+    } catch (err) {
+      // Cancelled searches keep whatever streamed in
+      if (isAbortError(err)) return;
+      setError(
+        err instanceof ApiRequestError && err.status === 400
+          ? err.message
+          : 'Failed to search tokens. Please try again.'
+      );
+      console.error(err);
+    } finally {
+      if (!signal.aborted || searchController.current === null) {
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  // Show the search the URL describes: on load, and on back and forward
+  const showSearchFromUrl = (search: SearchUrlState) => {
+    if (search.query) {
+      void runSearch(search);
+      return;
+    }
+
+    cancelSearch();
+    setActiveSearch(null);
+    setSearchQuery('');
+    setHasSearched(false);
+    resetResults();
+    setError(null);
+  };
+  const showSearchFromUrlRef = useRef(showSearchFromUrl);
+  showSearchFromUrlRef.current = showSearchFromUrl;
+
+  useEffect(() => {
+    if (urlKey === syncedUrl.current) return;
+    syncedUrl.current = urlKey;
+    showSearchFromUrlRef.current(parseSearchUrl(new URLSearchParams(urlKey)));
+  }, [urlKey]);
+
+  // Every new search gets its own history entry; the effect above runs it
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!searchQuery.trim()) return;
 
-    setLoading(true);
+    // A new query keeps the threshold, filters and sort already in the URL
+    const { minScore, filters, sort } = parseSearchUrl(searchParams);
+    const search: SearchUrlState = { mode: searchMode, query: searchQuery.trim(), minScore, filters, sort };
+    if (toSearchUrlParams(search) === urlKey) {
+      // Same URL as the results on screen: search again in place
+      await runSearch(search);
+    } else {
+      router.push(buildSearchUrl(search));
+    }
+  };
+
+  // Filtering runs the search again from the first page
+  const handleFiltersChange = (filters: SearchFilters, sort: SearchSort) => {
+    if (!activeSearch) return;
+    router.push(buildSearchUrl({ ...activeSearch, filters, sort, cursor: undefined }));
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor || !activeSearch) return;
+
+    const signal = startRequest();
+    const previousTokens = tokens;
+    setLoadingMore(true);
     setError(null);
-    setTokens([]);
-    setHasSearched(true);
 
     try {
-      const results = await searchTokens(searchQuery);
-      setTokens(results);
+      const response = await streamSearchResults(activeSearch.query, {
+        cursor: nextCursor,
+        minScore: activeSearch.minScore,
+        filters: activeSearch.filters,
+        sort: activeSearch.sort,
+      }, {
+        onToken: token => setTokens(current => mergeTokens(current, [token])),
+        onProgress: ({ scanned }) => setProgress(scanned),
+      }, { signal });
+      setTokens(mergeTokens(previousTokens, response.tokens));
+      setNextCursor(response.cursor);
+      setScanned(current => current
+        ? {
+            indexed: current.indexed + response.scanned.indexed,
+            dasPages: current.dasPages + response.scanned.dasPages,
+            signatures: current.signatures + response.scanned.signatures,
+            mints: current.mints + response.scanned.mints,
+          }
+        : response.scanned);
+      setCredits(current => current + response.usage.credits);
+
+      // Record how far the list goes without adding a history entry
+      const search = { ...activeSearch, cursor: nextCursor };
+      syncedUrl.current = toSearchUrlParams(search);
+      router.replace(buildSearchUrl(search), { scroll: false });
     } catch (err) {
-      setError('Failed to search tokens. Please try again.');
+      if (isAbortError(err)) return;
+      setError('Failed to load more results. Please try again.');
       console.error(err);
     } finally {
-      setLoading(false);
+      if (!signal.aborted || searchController.current === null) {
+        setLoadingMore(false);
+        setProgress(null);
+      }
     }
   };
 
+  const handleModeChange = (mode: SearchMode) => {
+    cancelSearch();
+    setSearchMode(mode);
+    setHasSearched(false);
+    resetResults();
+    setError(null);
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
+    // Editing the query abandons the search in progress
+    cancelSearch();
     if (hasSearched) {
       setHasSearched(false);
-      setTokens([]);
+      resetResults();
       setError(null);
     }
   };
@@ -52,6 +247,13 @@ export default function Home() {
     }
   };
 
+  // Pages are sorted on the server; sort again so loaded pages and streamed
+  // tokens merge into one order. Impersonators are listed under the verified
+  // token they imitate.
+  const { tokens: groupedTokens, clonesOf } = groupClones(
+    searchMode === 'token' ? sortTokens(tokens, activeSearch?.sort) : tokens
+  );
+
   return (
     <main className="min-h-screen bg-[#0F172A] text-white">
       {/* Navigation Bar */}
@@ -62,6 +264,12 @@ export default function Home() {
               <h1 className="text-xl font-bold">Solana Token Explorer</h1>
             </div>
             <div className="flex items-center space-x-4">
+              <Link
+                href="/feed"
+                className="text-gray-300 hover:text-white text-sm"
+              >
+                Live Feed
+              </Link>
               <a
                 href="https://solscan.io"
             target="_blank"
@@ -89,21 +297,47 @@ export default function Home() {
           Search for any token by name, ticker, or contract address to find its details, including newly minted and unindexed tokens
         </p>
 
+        <div className="flex justify-center gap-2 mb-4">
+          {([
+            ['token', 'Tokens'],
+            ['creator', 'Tokens by creator'],
+          ] as Array<[SearchMode, string]>).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => handleModeChange(mode)}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors duration-200 ${
+                searchMode === mode
+                  ? 'bg-purple-600 border-purple-600 text-white'
+                  : 'border-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
         <div className="flex gap-4 mb-8">
           <div className="relative flex-1">
             <input
               type="text"
               value={searchQuery}
               onChange={handleInputChange}
-              placeholder="Enter token name, ticker, or paste contract address..."
+              placeholder={searchMode === 'creator'
+                ? 'Paste a deployer wallet address...'
+                : 'Enter token name, ticker, or paste contract address...'}
               className="w-full px-4 py-3 bg-gray-800 rounded-lg border border-gray-700 focus:outline-none focus:border-purple-500 text-white placeholder-gray-500"
             />
             {searchQuery && (
               <button
                 onClick={() => {
+                  if (urlKey) {
+                    router.push('/');
+                    return;
+                  }
+                  cancelSearch();
                   setSearchQuery('');
                   setHasSearched(false);
-                  setTokens([]);
+                  resetResults();
                   setError(null);
                 }}
                 className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-400"
@@ -133,6 +367,38 @@ export default function Home() {
           </button>
         </div>
 
+        {searchMode === 'token' && (loading || loadingMore) && (
+          <div className="flex items-center justify-center gap-4 mb-8 text-sm text-gray-400">
+            <span>
+              {progress
+                ? [
+                    progress.indexed > 0 && `${progress.indexed.toLocaleString()} from local index`,
+                    progress.dasPages > 0 && `${progress.dasPages} DAS page${progress.dasPages === 1 ? '' : 's'}`,
+                    `${progress.signatures.toLocaleString()} transactions scanned`,
+                    `${progress.mints.toLocaleString()} mints checked`,
+                  ].filter(Boolean).join(' · ')
+                : 'Starting search...'}
+              {tokens.length > 0 && ` · ${tokens.length.toLocaleString()} found so far`}
+            </span>
+            <button
+              onClick={cancelSearch}
+              className="px-3 py-1 rounded-full border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {searchMode === 'token' && activeSearch?.mode === 'token' && (
+          <SearchFilterBar
+            key={toSearchUrlParams(activeSearch)}
+            filters={activeSearch.filters ?? {}}
+            sort={activeSearch.sort ?? 'relevance'}
+            onChange={handleFiltersChange}
+            disabled={loading}
+          />
+        )}
+
         {error && (
           <div className="max-w-2xl mx-auto mb-8">
             <div className="bg-red-900/50 text-red-200 p-4 rounded-lg border border-red-800">
@@ -141,11 +407,28 @@ export default function Home() {
           </div>
         )}
 
+        {hasSearched && activeSearch?.cursor && !loading && (
+          <p className="text-sm text-gray-400 text-center mb-6">
+            Showing results from a later page of this search.{' '}
+            <Link href={buildSearchUrl({ ...activeSearch, cursor: undefined })} className="text-purple-400 hover:text-purple-300">
+              Start from the first page
+            </Link>
+          </p>
+        )}
+
         {/* Results Section */}
         {tokens.length > 0 && (
           <div className="space-y-8">
+            <div className="flex justify-end">
+              <ExportButtons
+                tokens={tokens}
+                label={searchMode === 'creator' ? `creator-${searchQuery.trim()}` : searchQuery.trim()}
+                query={searchMode === 'token' ? searchQuery.trim() : undefined}
+              />
+            </div>
+
             {/* New Tokens Section */}
-            {tokens.filter(t => t.isNewToken).length > 0 && (
+            {groupedTokens.filter(t => t.isNewToken).length > 0 && (
               <div>
                 <h3 className="text-xl font-semibold mb-4 flex items-center">
                   <span className="text-green-400">New Tokens</span>
@@ -154,7 +437,7 @@ export default function Home() {
                   </span>
                 </h3>
                 <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                  {tokens
+                  {groupedTokens
                     .filter(token => token.isNewToken)
                     .map((token) => (
                       <div
@@ -162,25 +445,79 @@ export default function Home() {
                         className="p-4 rounded-lg bg-[#1E293B] border border-green-800 hover:border-green-700 transition-colors duration-200"
                       >
                         <div className="flex items-start justify-between mb-3">
+                          <div className="mr-3">
+                            <TokenLogo image={token.image} symbol={token.symbol} />
+                          </div>
                           <div className="min-w-0 flex-1 mr-3">
-                            <h3 className="text-lg font-medium truncate">{token.name}</h3>
-                            <p className="text-blue-400 font-mono truncate">{token.symbol}</p>
+                            <h3 className="text-lg font-medium truncate">
+                              <Link href={`/token/${token.address}`} className="hover:text-purple-400 transition-colors duration-200">
+                                <HighlightedText text={token.name} spans={token.match?.highlights.name} />
+                              </Link>
+                            </h3>
+                            <p className="text-blue-400 font-mono truncate">
+                              <HighlightedText text={token.symbol} spans={token.match?.highlights.symbol} />
+                            </p>
                             {token.mintDate && (
                               <p className="text-xs text-green-400 mt-1 truncate">
                                 Minted: {new Date(token.mintDate).toLocaleDateString()} at{' '}
                                 {new Date(token.mintDate).toLocaleTimeString()}
                               </p>
                             )}
+                            {token.creator && (
+                              <p className="text-xs text-gray-400 mt-1 truncate" title={token.creator.deployer}>
+                                Deployer: <span className="font-mono">{shortenAddress(token.creator.deployer)}</span>
+                              </p>
+                            )}
+                            {token.holders !== undefined && (
+                              <p className="text-xs text-gray-400 mt-1 truncate">
+                                {formatHolderCount(token.holders, token.holderCountIsComplete)}
+                              </p>
+                            )}
+                            {token.match && (
+                              <p className="text-xs text-gray-500 mt-1 truncate">
+                                {token.match.reason} · score {token.match.score}
+                              </p>
+                            )}
                           </div>
                           <div className="flex flex-col items-end gap-2 flex-shrink-0">
                             <span className="px-2 py-1 text-xs rounded-full bg-green-900 text-green-300 whitespace-nowrap">
                               {token.source}
                             </span>
-                            <span className="text-xs text-gray-400 whitespace-nowrap flex items-center">
-                              via <span className="text-blue-400 ml-1">Helius</span>
-                            </span>
+                            <VerificationBadge verification={token.verification} />
+                            <RiskBadge risk={token.risk} />
                           </div>
                         </div>
+
+                        {token.verification?.status === 'impersonator' && token.verification.canonical && (
+                          <p className="text-xs text-orange-300 mb-3">
+                            Imitates{' '}
+                            <Link href={`/token/${token.verification.canonical.address}`} className="underline hover:text-white">
+                              {token.verification.canonical.symbol}
+                            </Link>
+                            : {token.verification.reasons.join('; ')}
+                          </p>
+                        )}
+                        <CloneList clones={clonesOf.get(token.address)} />
+                        <MarketSummary address={token.address} market={token.market} />
+
+                        {getRiskyExtensions(token.extensions).length > 0 && (
+                          <div className="flex flex-wrap gap-1 mb-3">
+                            {getRiskyExtensions(token.extensions).map((label) => (
+                              <span key={label} className="px-2 py-0.5 text-xs rounded-full bg-red-900/60 text-red-300 border border-red-800">
+                                {label}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+
+                        {token.description && (
+                          <p className="text-sm text-gray-400 line-clamp-2 mb-3">{token.description}</p>
+                        )}
+                        {token.links && (
+                          <div className="mb-3">
+                            <TokenLinks links={token.links} />
+                          </div>
+                        )}
                         
                         <div className="space-y-2">
                           <div className="flex items-center justify-between">
@@ -197,6 +534,13 @@ export default function Home() {
                                   <ClipboardIcon className="h-5 w-5" />
                                 )}
                               </button>
+                              <Link
+                                href={`/token/${token.address}`}
+                                className="text-gray-400 hover:text-white transition-colors duration-200"
+                                title="View token details"
+                              >
+                                <InformationCircleIcon className="h-5 w-5" />
+                              </Link>
                               <a
                                 href={`https://solscan.io/token/${token.address}`}
           target="_blank"
@@ -210,7 +554,7 @@ export default function Home() {
                           </div>
                           <div className="relative group">
                             <p className="font-mono text-sm text-gray-300 truncate" title={token.address}>
-                              {token.address}
+                              <HighlightedText text={token.address} spans={token.match?.highlights.address} />
                             </p>
                             <div className="absolute left-0 right-0 -bottom-1 opacity-0 group-hover:opacity-100 transition-opacity bg-[#1E293B] p-2 rounded-md shadow-lg z-10 font-mono text-sm text-gray-300 break-all">
                               {token.address}
@@ -224,11 +568,11 @@ export default function Home() {
             )}
 
             {/* Indexed Tokens Section */}
-            {tokens.filter(t => !t.isNewToken).length > 0 && (
+            {groupedTokens.filter(t => !t.isNewToken).length > 0 && (
               <div>
                 <h3 className="text-xl font-semibold mb-4">Indexed Tokens</h3>
                 <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                  {tokens
+                  {groupedTokens
                     .filter(token => !token.isNewToken)
                     .map((token) => (
                       <div
@@ -236,28 +580,82 @@ export default function Home() {
                         className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 hover:border-gray-700 transition-colors duration-200"
                       >
                         <div className="flex items-start justify-between mb-3">
+                          <div className="mr-3">
+                            <TokenLogo image={token.image} symbol={token.symbol} />
+                          </div>
                           <div className="min-w-0 flex-1 mr-3">
-                            <h3 className="text-lg font-medium truncate">{token.name}</h3>
-                            <p className="text-blue-400 font-mono truncate">{token.symbol}</p>
+                            <h3 className="text-lg font-medium truncate">
+                              <Link href={`/token/${token.address}`} className="hover:text-purple-400 transition-colors duration-200">
+                                <HighlightedText text={token.name} spans={token.match?.highlights.name} />
+                              </Link>
+                            </h3>
+                            <p className="text-blue-400 font-mono truncate">
+                              <HighlightedText text={token.symbol} spans={token.match?.highlights.symbol} />
+                            </p>
                             {token.mintDate && (
                               <p className="text-xs text-green-400 mt-1 truncate">
                                 Minted: {new Date(token.mintDate).toLocaleDateString()} at{' '}
                                 {new Date(token.mintDate).toLocaleTimeString()}
                               </p>
                             )}
+                            {token.creator && (
+                              <p className="text-xs text-gray-400 mt-1 truncate" title={token.creator.deployer}>
+                                Deployer: <span className="font-mono">{shortenAddress(token.creator.deployer)}</span>
+                              </p>
+                            )}
+                            {token.holders !== undefined && (
+                              <p className="text-xs text-gray-400 mt-1 truncate">
+                                {formatHolderCount(token.holders, token.holderCountIsComplete)}
+                              </p>
+                            )}
+                            {token.match && (
+                              <p className="text-xs text-gray-500 mt-1 truncate">
+                                {token.match.reason} · score {token.match.score}
+                              </p>
+                            )}
                           </div>
                           <div className="flex flex-col items-end gap-2 flex-shrink-0">
                             <span className="px-2 py-1 text-xs rounded-full bg-gray-800 text-gray-300 whitespace-nowrap">
                               {token.source}
                             </span>
-                            <span className="text-xs text-gray-400 whitespace-nowrap flex items-center">
-                              via <span className="text-blue-400 ml-1">Helius</span>
-                            </span>
+                            <VerificationBadge verification={token.verification} />
+                            <RiskBadge risk={token.risk} />
                             {!token.mintDate && (
                               <span className="text-xs text-gray-500 whitespace-nowrap">Mint date unknown</span>
                             )}
                           </div>
                         </div>
+
+                        {token.verification?.status === 'impersonator' && token.verification.canonical && (
+                          <p className="text-xs text-orange-300 mb-3">
+                            Imitates{' '}
+                            <Link href={`/token/${token.verification.canonical.address}`} className="underline hover:text-white">
+                              {token.verification.canonical.symbol}
+                            </Link>
+                            : {token.verification.reasons.join('; ')}
+                          </p>
+                        )}
+                        <CloneList clones={clonesOf.get(token.address)} />
+                        <MarketSummary address={token.address} market={token.market} />
+
+                        {getRiskyExtensions(token.extensions).length > 0 && (
+                          <div className="flex flex-wrap gap-1 mb-3">
+                            {getRiskyExtensions(token.extensions).map((label) => (
+                              <span key={label} className="px-2 py-0.5 text-xs rounded-full bg-red-900/60 text-red-300 border border-red-800">
+                                {label}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+
+                        {token.description && (
+                          <p className="text-sm text-gray-400 line-clamp-2 mb-3">{token.description}</p>
+                        )}
+                        {token.links && (
+                          <div className="mb-3">
+                            <TokenLinks links={token.links} />
+                          </div>
+                        )}
                         
                         <div className="space-y-2">
                           <div className="flex items-center justify-between">
@@ -274,6 +672,13 @@ export default function Home() {
                                   <ClipboardIcon className="h-5 w-5" />
                                 )}
                               </button>
+                              <Link
+                                href={`/token/${token.address}`}
+                                className="text-gray-400 hover:text-white transition-colors duration-200"
+                                title="View token details"
+                              >
+                                <InformationCircleIcon className="h-5 w-5" />
+                              </Link>
                               <a
                                 href={`https://solscan.io/token/${token.address}`}
           target="_blank"
@@ -287,7 +692,7 @@ export default function Home() {
                           </div>
                           <div className="relative group">
                             <p className="font-mono text-sm text-gray-300 truncate" title={token.address}>
-                              {token.address}
+                              <HighlightedText text={token.address} spans={token.match?.highlights.address} />
                             </p>
                             <div className="absolute left-0 right-0 -bottom-1 opacity-0 group-hover:opacity-100 transition-opacity bg-[#1E293B] p-2 rounded-md shadow-lg z-10 font-mono text-sm text-gray-300 break-all">
                               {token.address}
@@ -306,15 +711,42 @@ export default function Home() {
           <div className="text-center py-12">
             <div className="bg-[#1E293B] rounded-lg p-8 max-w-md mx-auto">
               <p className="text-gray-400 mb-2">
-                No tokens found matching &ldquo;{searchQuery}&rdquo;
+                {searchMode === 'creator'
+                  ? <>No tokens found deployed by &ldquo;{searchQuery}&rdquo;</>
+                  : <>No tokens found matching &ldquo;{searchQuery}&rdquo;{countActiveFilters(activeSearch?.filters ?? {}) > 0 && ' with these filters'}</>}
               </p>
               <p className="text-sm text-gray-500">
-                Try searching with a different name or ticker
+                {searchMode === 'creator'
+                  ? 'Only the most recent transactions of the wallet are scanned'
+                  : 'Try searching with a different name or ticker'}
               </p>
             </div>
           </div>
         )}
 
+        {/* Pagination */}
+        {hasSearched && !loading && (scanned || nextCursor) && (
+          <div className="flex flex-col items-center gap-3 mt-8">
+            {scanned && (
+              <p className="text-xs text-gray-500">
+                {scanned.indexed > 0 && `${scanned.indexed.toLocaleString()} from local index · `}
+                {scanned.dasPages > 0 && `${scanned.dasPages} DAS page${scanned.dasPages === 1 ? '' : 's'} · `}
+                {scanned.signatures.toLocaleString()} transactions scanned · {scanned.mints.toLocaleString()} mints checked
+                {credits > 0 && ` · ${credits.toLocaleString()} RPC credits`}
+              </p>
+            )}
+            {nextCursor && (
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="px-6 py-2 rounded-lg border border-purple-600 text-purple-300 hover:bg-purple-600 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-wait"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="flex justify-center py-12">
@@ -325,3 +757,12 @@ export default function Home() {
     </main>
   );
 }
+
+// useSearchParams needs a Suspense boundary so the page can be prerendered
+export default function Home() {
+  return (
+    <Suspense>
+      <SearchPage />
+    </Suspense>
+  );
+}
@@ -0,0 +1,552 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { ArrowLeftIcon, ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline';
+import { getTokenDetails } from '@/utils/helius';
+import {
+  formatDateTime,
+  formatHolderCount,
+  formatLpStatus,
+  formatPercentage,
+  formatPoolPrice,
+  formatPrice,
+  formatTokenAmount,
+  formatUsd,
+  shortenAddress,
+} from '@/utils/format';
+import { getRiskyExtensions } from '@/utils/token2022';
+import TokenLogo from '@/components/TokenLogo';
+import TokenLinks from '@/components/TokenLinks';
+import RiskBadge from '@/components/RiskBadge';
+import VerificationBadge from '@/components/VerificationBadge';
+import ExportButtons from '@/components/ExportButtons';
+import ActivityTimeline from '@/components/ActivityTimeline';
+import { serializeTokenInfo } from '@/utils/api';
+import type { RiskStatus } from '@/utils/risk';
+
+export const dynamic = 'force-dynamic';
+
+const TOKEN_PROGRAM_LABELS: Record<string, string> = {
+  [TOKEN_PROGRAM_ID.toBase58()]: 'SPL Token',
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: 'Token-2022',
+};
+
+function isValidAddress(address: string): boolean {
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function AddressValue({ address }: { address: string }) {
+  return (
+    <span className="flex items-center gap-2 min-w-0">
+      <span className="font-mono text-sm text-gray-300 break-all">{address}</span>
+      <a
+        href={`https://solscan.io/account/${address}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-gray-400 hover:text-white transition-colors duration-200 flex-shrink-0"
+        title="View on Solscan"
+      >
+        <ArrowTopRightOnSquareIcon className="h-4 w-4" />
+      </a>
+    </span>
+  );
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-1 py-3 border-b border-gray-800 last:border-b-0">
+      <dt className="text-sm text-gray-400 sm:w-48 flex-shrink-0">{label}</dt>
+      <dd className="text-sm text-gray-200 min-w-0 sm:text-right">{children}</dd>
+    </div>
+  );
+}
+
+const RISK_STATUS_STYLES: Record<RiskStatus, string> = {
+  pass: 'bg-green-900 text-green-300',
+  warn: 'bg-yellow-900/60 text-yellow-300',
+  fail: 'bg-red-900/60 text-red-300',
+};
+
+function AuthorityValue({ authority }: { authority?: string | null }) {
+  if (authority === undefined) return <span className="text-gray-500">Unknown</span>;
+  if (authority === null) return <span className="text-green-400">None (revoked)</span>;
+  return <AddressValue address={authority} />;
+}
+
+export default async function TokenPage({
+  params,
+}: {
+  params: Promise<{ address: string }>;
+}) {
+  const { address } = await params;
+  if (!isValidAddress(address)) notFound();
+
+  const token = await getTokenDetails(address);
+  if (!token) notFound();
+
+  const riskyExtensions = getRiskyExtensions(token.extensions);
+  const programLabel = token.programId
+    ? TOKEN_PROGRAM_LABELS[token.programId] || 'Unknown program'
+    : undefined;
+
+  return (
+    <main className="min-h-screen bg-[#0F172A] text-white">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <Link href="/" className="inline-flex items-center text-sm text-gray-400 hover:text-white mb-6">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to search
+        </Link>
+
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div className="flex items-start gap-4 min-w-0">
+            <TokenLogo image={token.image} symbol={token.symbol} size={64} />
+            <div className="min-w-0">
+              <h1 className="text-3xl font-bold truncate">{token.name}</h1>
+              <p className="text-blue-400 font-mono text-lg truncate">{token.symbol}</p>
+              {token.links && (
+                <div className="mt-2">
+                  <TokenLinks links={token.links} />
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-2 flex-shrink-0">
+            {token.isNewToken && (
+              <span className="px-2 py-1 text-xs bg-green-900 text-green-300 rounded-full">Last 24h</span>
+            )}
+            <span className="px-2 py-1 text-xs rounded-full bg-gray-800 text-gray-300 whitespace-nowrap">
+              {token.source}
+            </span>
+            <VerificationBadge verification={token.verification} />
+            <RiskBadge risk={token.risk} />
+            <ExportButtons tokens={[serializeTokenInfo(token)]} label={token.symbol || token.address} />
+          </div>
+        </div>
+
+        {token.verification?.status === 'impersonator' && token.verification.canonical && (
+          <div className="p-4 rounded-lg bg-orange-950/40 border border-orange-800 text-orange-200 mb-6">
+            <p className="text-sm">
+              This may be an impersonator of{' '}
+              <Link href={`/token/${token.verification.canonical.address}`} className="underline hover:text-white">
+                {token.verification.canonical.name} ({token.verification.canonical.symbol})
+              </Link>
+              , which is on the verified token list.
+            </p>
+            <ul className="mt-2 list-disc list-inside text-xs text-orange-300">
+              {token.verification.reasons.map(reason => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {token.description && (
+          <p className="text-gray-300 mb-6 whitespace-pre-line">{token.description}</p>
+        )}
+
+        {token.risk && (
+          <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 mb-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold">Risk Report</h2>
+              <span className="text-sm text-gray-400">Score {token.risk.score} / 100</span>
+            </div>
+            <ul>
+              {token.risk.checks.map((check) => (
+                <li key={check.id} className="flex items-start gap-3 py-3 border-b border-gray-800 last:border-b-0">
+                  <span className={`px-2 py-0.5 text-xs rounded-full uppercase flex-shrink-0 ${RISK_STATUS_STYLES[check.status]}`}>
+                    {check.status}
+                  </span>
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-200">{check.label}</p>
+                    <p className="text-xs text-gray-400 break-all">{check.evidence}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {token.risk.skipped.length > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                Not enough data for: {token.risk.skipped.join(', ')}
+              </p>
+            )}
+          </section>
+        )}
+
+        <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 mb-6">
+          <h2 className="text-lg font-semibold mb-2">Token</h2>
+          <dl>
+            <DetailRow label="Mint address">
+              <AddressValue address={token.address} />
+            </DetailRow>
+            <DetailRow label="Name">{token.metadata?.name || token.name}</DetailRow>
+            <DetailRow label="Symbol">{token.metadata?.symbol || token.symbol}</DetailRow>
+            <DetailRow label="Metadata URI">
+              {token.metadata?.uri ? (
+                <a
+                  href={token.metadata.uri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300 break-all"
+                >
+                  {token.metadata.uri}
+                </a>
+              ) : (
+                <span className="text-gray-500">None</span>
+              )}
+            </DetailRow>
+            <DetailRow label="Minted">
+              {token.mintDate ? formatDateTime(token.mintDate) : <span className="text-gray-500">Unknown</span>}
+            </DetailRow>
+          </dl>
+        </section>
+
+        <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800">
+          <h2 className="text-lg font-semibold mb-2">Mint</h2>
+          <dl>
+            <DetailRow label="Decimals">{token.decimals ?? <span className="text-gray-500">Unknown</span>}</DetailRow>
+            <DetailRow label="Supply">
+              {token.supply !== undefined && token.decimals !== undefined
+                ? formatTokenAmount(token.supply, token.decimals)
+                : <span className="text-gray-500">Unknown</span>}
+            </DetailRow>
+            <DetailRow label="Raw supply">
+              <span className="font-mono">{token.supply ?? 'Unknown'}</span>
+            </DetailRow>
+            <DetailRow label="Mint authority">
+              <AuthorityValue authority={token.mintAuthority} />
+            </DetailRow>
+            <DetailRow label="Freeze authority">
+              <AuthorityValue authority={token.freezeAuthority} />
+            </DetailRow>
+            <DetailRow label="Token program">
+              {token.programId ? (
+                <span className="flex flex-col sm:items-end gap-1">
+                  <span>{programLabel}</span>
+                  <AddressValue address={token.programId} />
+                </span>
+              ) : (
+                <span className="text-gray-500">Unknown</span>
+              )}
+            </DetailRow>
+          </dl>
+        </section>
+
+        {token.market && (
+          <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 mt-6">
+            <h2 className="text-lg font-semibold mb-2">Market</h2>
+            <dl className="mb-4">
+              <DetailRow label="Price">
+                {token.market.priceUsd !== undefined
+                  ? formatPrice(token.market.priceUsd, '$')
+                  : <span className="text-gray-500">Unknown</span>}
+              </DetailRow>
+              <DetailRow label="Price in SOL">
+                {token.market.priceSol !== undefined
+                  ? formatPrice(token.market.priceSol, 'SOL')
+                  : <span className="text-gray-500">Unknown</span>}
+              </DetailRow>
+              <DetailRow label="Liquidity">
+                {token.market.liquidityUsd !== undefined
+                  ? formatUsd(token.market.liquidityUsd)
+                  : <span className="text-gray-500">Unknown</span>}
+              </DetailRow>
+            </dl>
+            {token.market.pools.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400 border-b border-gray-800">
+                      <th className="py-2 pr-2">Pool</th>
+                      <th className="py-2 pr-2">Pair</th>
+                      <th className="py-2 pr-2 text-right">Price</th>
+                      <th className="py-2 pr-2 text-right">Liquidity</th>
+                      <th className="py-2 text-right">LP</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {token.market.pools.map(pool => (
+                      <tr key={pool.address} className="border-b border-gray-800 last:border-b-0">
+                        <td className="py-2 pr-2">
+                          <a
+                            href={`https://solscan.io/account/${pool.address}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-gray-300 hover:text-white"
+                            title={pool.address}
+                          >
+                            {pool.dex}
+                          </a>
+                        </td>
+                        <td className="py-2 pr-2 text-gray-300">
+                          {token.symbol} / {pool.quoteSymbol ?? shortenAddress(pool.quoteMint)}
+                        </td>
+                        <td className="py-2 pr-2 text-right font-mono text-gray-300">{formatPoolPrice(pool)}</td>
+                        <td className="py-2 pr-2 text-right text-gray-300">
+                          {pool.liquidityUsd !== undefined ? formatUsd(pool.liquidityUsd) : '—'}
+                        </td>
+                        <td className="py-2 text-right text-gray-400">{formatLpStatus(pool.lp) ?? '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No pools found on Raydium, Orca or Meteora.</p>
+            )}
+          </section>
+        )}
+
+        {token.holderAnalytics && (
+          <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 mt-6">
+            <h2 className="text-lg font-semibold mb-2">Holders</h2>
+            <dl className="mb-4">
+              <DetailRow label="Holder count">
+                {formatHolderCount(token.holderAnalytics.holderCount, token.holderAnalytics.holderCountIsComplete)}
+              </DetailRow>
+              <DetailRow label="Top 1 holder">{formatPercentage(token.holderAnalytics.concentration.top1)}</DetailRow>
+              <DetailRow label="Top 10 holders">{formatPercentage(token.holderAnalytics.concentration.top10)}</DetailRow>
+              <DetailRow label="Top 20 holders">{formatPercentage(token.holderAnalytics.concentration.top20)}</DetailRow>
+            </dl>
+            <p className="text-xs text-gray-500 mb-3">
+              Concentration excludes burn addresses, AMM vaults and other program-owned accounts.
+            </p>
+            {token.holderAnalytics.topHolders.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400 border-b border-gray-800">
+                      <th className="py-2 pr-2">#</th>
+                      <th className="py-2 pr-2">Owner</th>
+                      <th className="py-2 pr-2 text-right">Amount</th>
+                      <th className="py-2 text-right">Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {token.holderAnalytics.topHolders.map((holder, index) => (
+                      <tr key={holder.account} className="border-b border-gray-800 last:border-b-0">
+                        <td className="py-2 pr-2 text-gray-500">{index + 1}</td>
+                        <td className="py-2 pr-2">
+                          <a
+                            href={`https://solscan.io/account/${holder.owner || holder.account}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono text-gray-300 hover:text-white"
+                            title={holder.owner || holder.account}
+                          >
+                            {shortenAddress(holder.owner || holder.account, 6)}
+                          </a>
+                          {holder.excludedReason && (
+                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-800 text-gray-400">
+                              {holder.excludedReason}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-2 text-right font-mono text-gray-300">
+                          {token.decimals !== undefined ? formatTokenAmount(holder.amount, token.decimals) : holder.amount}
+                        </td>
+                        <td className="py-2 text-right text-gray-300">{formatPercentage(holder.percentage)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        )}
+
+        <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 mt-6">
+          <h2 className="text-lg font-semibold mb-2">Creator</h2>
+          <dl>
+            <DetailRow label="Deployer">
+              {token.creator
+                ? <AddressValue address={token.creator.deployer} />
+                : <span className="text-gray-500">Unknown</span>}
+            </DetailRow>
+            <DetailRow label="Initial mint authority">
+              {token.creator
+                ? <AuthorityValue authority={token.creator.initialMintAuthority} />
+                : <span className="text-gray-500">Unknown</span>}
+            </DetailRow>
+            <DetailRow label="Metadata update authority">
+              <AuthorityValue authority={token.metadata ? token.metadata.updateAuthority ?? null : undefined} />
+            </DetailRow>
+            {token.creator && (
+              <DetailRow label="Creation transaction">
+                <a
+                  href={`https://solscan.io/tx/${token.creator.signature}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-blue-400 hover:text-blue-300 break-all"
+                >
+                  {token.creator.signature}
+                </a>
+              </DetailRow>
+            )}
+            {token.creator?.slot !== undefined && (
+              <DetailRow label="Creation slot">{token.creator.slot.toLocaleString()}</DetailRow>
+            )}
+          </dl>
+        </section>
+
+        <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 mt-6">
+          <h2 className="text-lg font-semibold mb-2">Activity</h2>
+          <ActivityTimeline address={token.address} />
+        </section>
+
+        {token.extensions && (
+          <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 mt-6">
+            <h2 className="text-lg font-semibold mb-2">Token Extensions</h2>
+            {riskyExtensions.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {riskyExtensions.map((label) => (
+                  <span key={label} className="px-2 py-1 text-xs rounded-full bg-red-900/60 text-red-300 border border-red-800">
+                    {label}
+                  </span>
+                ))}
+              </div>
+            )}
+            <dl>
+              <DetailRow label="Enabled extensions">
+                <span className="font-mono">{token.extensions.types.join(', ') || 'None'}</span>
+              </DetailRow>
+              {token.extensions.transferFee && (
+                <DetailRow label="Transfer fee">
+                  <span className="flex flex-col sm:items-end gap-1">
+                    <span>
+                      {(token.extensions.transferFee.basisPoints / 100).toFixed(2)}% (max{' '}
+                      {token.decimals !== undefined
+                        ? formatTokenAmount(token.extensions.transferFee.maximumFee, token.decimals)
+                        : token.extensions.transferFee.maximumFee})
+                    </span>
+                    <span className="text-xs text-gray-400">Config authority</span>
+                    <AuthorityValue authority={token.extensions.transferFee.configAuthority} />
+                  </span>
+                </DetailRow>
+              )}
+              {token.extensions.permanentDelegate !== undefined && (
+                <DetailRow label="Permanent delegate">
+                  <AuthorityValue authority={token.extensions.permanentDelegate} />
+                </DetailRow>
+              )}
+              {token.extensions.nonTransferable && (
+                <DetailRow label="Non-transferable">
+                  <span className="text-red-400">Yes</span>
+                </DetailRow>
+              )}
+              {token.extensions.defaultAccountState && (
+                <DetailRow label="Default account state">{token.extensions.defaultAccountState}</DetailRow>
+              )}
+              {token.extensions.transferHook && (
+                <DetailRow label="Transfer hook program">
+                  <AuthorityValue authority={token.extensions.transferHook.programId} />
+                </DetailRow>
+              )}
+              {token.extensions.metadataPointer && (
+                <DetailRow label="Metadata pointer">
+                  <AuthorityValue authority={token.extensions.metadataPointer.metadataAddress} />
+                </DetailRow>
+              )}
+              {token.extensions.mintCloseAuthority !== undefined && (
+                <DetailRow label="Mint close authority">
+                  <AuthorityValue authority={token.extensions.mintCloseAuthority} />
+                </DetailRow>
+              )}
+            </dl>
+          </section>
+        )}
+
+        {token.metadata?.additionalMetadata && token.metadata.additionalMetadata.length > 0 && (
+          <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 mt-6">
+            <h2 className="text-lg font-semibold mb-2">Additional Metadata</h2>
+            <dl>
+              {token.metadata.additionalMetadata.map(([key, value]) => (
+                <DetailRow key={key} label={key}>
+                  <span className="break-all">{value}</span>
+                </DetailRow>
+              ))}
+            </dl>
+          </section>
+        )}
+
+        {token.metadata?.updateAuthority && token.metadata.sellerFeeBasisPoints !== undefined && (
+          <section className="p-4 rounded-lg bg-[#1E293B] border border-gray-800 mt-6">
+            <h2 className="text-lg font-semibold mb-2">Metaplex Metadata</h2>
+            <dl>
+              <DetailRow label="Update authority">
+                <AddressValue address={token.metadata.updateAuthority} />
+              </DetailRow>
+              <DetailRow label="Mutable">
+                {token.metadata.isMutable
+                  ? <span className="text-yellow-400">Yes</span>
+                  : <span className="text-green-400">No</span>}
+              </DetailRow>
+              <DetailRow label="Token standard">{token.metadata.tokenStandard ?? 'Not set'}</DetailRow>
+              <DetailRow label="Seller fee">
+                {((token.metadata.sellerFeeBasisPoints ?? 0) / 100).toFixed(2)}%
+              </DetailRow>
+              <DetailRow label="Primary sale happened">{token.metadata.primarySaleHappened ? 'Yes' : 'No'}</DetailRow>
+              <DetailRow label="Edition nonce">{token.metadata.editionNonce ?? 'None'}</DetailRow>
+              <DetailRow label="Creators">
+                {token.metadata.creators?.length ? (
+                  <ul className="space-y-2">
+                    {token.metadata.creators.map((creator) => (
+                      <li key={creator.address} className="flex flex-col sm:items-end">
+                        <AddressValue address={creator.address} />
+                        <span className="text-xs text-gray-400">
+                          {creator.share}% share · {creator.verified ? 'verified' : 'unverified'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  'None'
+                )}
+              </DetailRow>
+              <DetailRow label="Collection">
+                {token.metadata.collection ? (
+                  <span className="flex flex-col sm:items-end">
+                    <AddressValue address={token.metadata.collection.key} />
+                    <span className="text-xs text-gray-400">
+                      {token.metadata.collection.verified ? 'verified' : 'unverified'}
+                    </span>
+                  </span>
+                ) : (
+                  'None'
+                )}
+              </DetailRow>
+              <DetailRow label="Uses">
+                {token.metadata.uses
+                  ? `${token.metadata.uses.useMethod} (${token.metadata.uses.remaining} of ${token.metadata.uses.total} remaining)`
+                  : 'None'}
+              </DetailRow>
+            </dl>
+          </section>
+        )}
+
+        <div className="mt-6 flex gap-4 text-sm">
+          <a
+            href={`https://solscan.io/token/${token.address}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-gray-400 hover:text-white"
+          >
+            View on Solscan
+          </a>
+          <a
+            href={`https://explorer.solana.com/address/${token.address}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-gray-400 hover:text-white"
+          >
+            View on Solana Explorer
+          </a>
+        </div>
+      </div>
+    </main>
+  );
+}
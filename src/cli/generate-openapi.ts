@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { V1_OPERATIONS } from '../app/api/v1/types';
+
+// Generates the OpenAPI document for /api/v1 from the TypeScript types in
+// src/app/api/v1/types.ts, walking every type they reference. Field
+// descriptions come from the `//` comments above each field. With --check it
+// only reports whether the committed document is up to date.
+
+const ROOT_DIR = process.cwd();
+const SRC_DIR = path.join(ROOT_DIR, 'src');
+const TYPES_FILE = path.join(SRC_DIR, 'app', 'api', 'v1', 'types.ts');
+const OUTPUT_FILE = path.join(SRC_DIR, 'app', 'api', 'v1', 'openapi.generated.json');
+const ERROR_SCHEMA = 'V1ErrorResponse';
+
+type JsonSchema = Record<string, unknown>;
+
+function createProgram(): ts.Program {
+  const configPath = path.join(ROOT_DIR, 'tsconfig.json');
+  const config = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (config.error) throw new Error(ts.flattenDiagnosticMessageText(config.error.messageText, '\n'));
+  const { options } = ts.parseJsonConfigFileContent(config.config, ts.sys, ROOT_DIR);
+  return ts.createProgram([TYPES_FILE], { ...options, noEmit: true });
+}
+
+// The `//` comment lines directly above a declaration
+function readComment(node: ts.Node): string | undefined {
+  const text = node.getSourceFile().getFullText();
+  const ranges = ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [];
+  const comment = ranges
+    .filter(range => range.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+    .map(range => text.slice(range.pos + 2, range.end).trim())
+    .join(' ');
+  return comment || undefined;
+}
+
+function createSchemaBuilder(checker: ts.TypeChecker) {
+  const schemas: Record<string, JsonSchema> = {};
+
+  const isProjectSymbol = (symbol: ts.Symbol | undefined): symbol is ts.Symbol => {
+    const fileName = symbol?.declarations?.[0]?.getSourceFile().fileName;
+    return Boolean(fileName && path.resolve(fileName).startsWith(SRC_DIR + path.sep));
+  };
+
+  // Interfaces and type aliases declared in the project become named
+  // components; library types such as Pick<> and Record<> are inlined
+  const componentName = (type: ts.Type): string | null => {
+    if (type.aliasSymbol && !type.aliasTypeArguments?.length && isProjectSymbol(type.aliasSymbol)) {
+      return type.aliasSymbol.name;
+    }
+    const symbol = type.getSymbol();
+    const isInterface = symbol && (symbol.flags & ts.SymbolFlags.Interface) !== 0;
+    const isGeneric = ((type as ts.TypeReference).typeArguments?.length ?? 0) > 0;
+    return isInterface && !isGeneric && isProjectSymbol(symbol) ? symbol.name : null;
+  };
+
+  const withNull = (schema: JsonSchema): JsonSchema =>
+    Array.isArray(schema.anyOf)
+      ? { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] }
+      : { anyOf: [schema, { type: 'null' }] };
+
+  const describeUnion = (type: ts.UnionType): JsonSchema => {
+    const members = type.types.filter(member => !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+    const nullable = members.some(member => member.flags & ts.TypeFlags.Null);
+    let rest = members.filter(member => !(member.flags & ts.TypeFlags.Null));
+
+    // `boolean` is the union true | false
+    const booleans = rest.filter(member => member.flags & ts.TypeFlags.BooleanLiteral);
+    const schemas: JsonSchema[] = [];
+    if (booleans.length === 2) {
+      schemas.push({ type: 'boolean' });
+      rest = rest.filter(member => !booleans.includes(member));
+    }
+
+    if (rest.length > 0 && rest.every(member => member.isStringLiteral())) {
+      schemas.push({ type: 'string', enum: rest.map(member => (member as ts.StringLiteralType).value) });
+    } else if (rest.length > 0 && rest.every(member => member.isNumberLiteral())) {
+      schemas.push({ type: 'number', enum: rest.map(member => (member as ts.NumberLiteralType).value) });
+    } else {
+      schemas.push(...rest.map(member => toSchema(member)));
+    }
+
+    const schema = schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+    return nullable ? withNull(schema) : schema;
+  };
+
+  const describeObject = (type: ts.Type): JsonSchema => {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      const declaration = property.valueDeclaration ?? property.declarations?.[0];
+      const propertyType = declaration
+        ? checker.getTypeOfSymbolAtLocation(property, declaration)
+        : checker.getTypeOfSymbol(property);
+      if (propertyType.getCallSignatures().length > 0) continue;
+
+      const schema = toSchema(propertyType);
+      const description = declaration && readComment(declaration);
+      properties[property.name] = description ? { ...schema, description } : schema;
+      if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+    }
+
+    const schema: JsonSchema = { type: 'object', properties };
+    if (required.length > 0) schema.required = required;
+    const indexInfo = checker.getIndexInfosOfType(type)[0];
+    if (indexInfo) schema.additionalProperties = toSchema(indexInfo.type);
+    return schema;
+  };
+
+  const describeType = (type: ts.Type): JsonSchema => {
+    if (type.flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+    if (type.isUnion()) return describeUnion(type);
+    if (type.isStringLiteral()) return { type: 'string', const: type.value };
+    if (type.isNumberLiteral()) return { type: 'number', const: type.value };
+    if (type.flags & ts.TypeFlags.BooleanLiteral) return { type: 'boolean', const: checker.typeToString(type) === 'true' };
+    if (type.flags & ts.TypeFlags.StringLike) return { type: 'string' };
+    if (type.flags & ts.TypeFlags.NumberLike) return { type: 'number' };
+    if (type.flags & ts.TypeFlags.Null) return { type: 'null' };
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+
+    if (checker.isArrayType(type)) {
+      return { type: 'array', items: toSchema(checker.getTypeArguments(type as ts.TypeReference)[0]) };
+    }
+    if (checker.isTupleType(type)) {
+      const items = checker.getTypeArguments(type as ts.TypeReference).map(toSchema);
+      return { type: 'array', prefixItems: items, minItems: items.length, maxItems: items.length };
+    }
+    if (type.getSymbol()?.name === 'Date') return { type: 'string', format: 'date-time' };
+    if (type.flags & ts.TypeFlags.Object || type.isIntersection()) return describeObject(type);
+
+    throw new Error(`Cannot describe type ${checker.typeToString(type)} in the OpenAPI document`);
+  };
+
+  function toSchema(type: ts.Type): JsonSchema {
+    const name = componentName(type);
+    if (!name) return describeType(type);
+
+    if (!(name in schemas)) {
+      // Placeholder first, so self-referencing types terminate
+      schemas[name] = {};
+      const declaration = (type.aliasSymbol ?? type.getSymbol())?.declarations?.[0];
+      const description = declaration && readComment(declaration);
+      const schema = describeType(type);
+      schemas[name] = description ? { ...schema, description } : schema;
+    }
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  return { toSchema, schemas };
+}
+
+function generateDocument(): JsonSchema {
+  const program = createProgram();
+  const checker = program.getTypeChecker();
+  const source = program.getSourceFile(TYPES_FILE);
+  if (!source) throw new Error(`Cannot read ${TYPES_FILE}`);
+
+  const moduleSymbol = checker.getSymbolAtLocation(source);
+  const exported = new Map(checker.getExportsOfModule(moduleSymbol!).map(symbol => [symbol.name, symbol]));
+  const typeNamed = (name: string): ts.Type => {
+    const symbol = exported.get(name);
+    if (!symbol) throw new Error(`${name} is not exported from ${path.relative(ROOT_DIR, TYPES_FILE)}`);
+    return checker.getDeclaredTypeOfSymbol(symbol);
+  };
+
+  const { toSchema, schemas } = createSchemaBuilder(checker);
+  const errorSchema = toSchema(typeNamed(ERROR_SCHEMA));
+
+  const parametersOf = (typeName: string | undefined, location: 'path' | 'query') => {
+    if (!typeName) return [];
+    return checker.getPropertiesOfType(typeNamed(typeName)).map(property => {
+      const declaration = property.valueDeclaration!;
+      const description = readComment(declaration);
+      return {
+        name: property.name,
+        in: location,
+        required: location === 'path' || !(property.flags & ts.SymbolFlags.Optional),
+        ...(description ? { description } : {}),
+        schema: toSchema(checker.getTypeOfSymbolAtLocation(property, declaration)),
+      };
+    });
+  };
+
+  const paths: Record<string, JsonSchema> = {};
+  for (const operation of V1_OPERATIONS) {
+    paths[operation.path] = {
+      get: {
+        operationId: operation.operationId,
+        summary: operation.summary,
+        ...(operation.public ? { security: [] } : {}),
+        parameters: [...parametersOf(operation.pathParams, 'path'), ...parametersOf(operation.query, 'query')],
+        responses: {
+          200: {
+            description: 'OK',
+            content: { 'application/json': { schema: toSchema(typeNamed(operation.response)) } },
+          },
+          default: {
+            description: 'Error. 429 responses carry Retry-After; every authenticated response carries X-RateLimit-Limit and X-RateLimit-Remaining.',
+            content: { 'application/json': { schema: errorSchema } },
+          },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'sol-track API',
+      version: '1',
+      description: 'Token search, details, holders and activity for Solana mints.',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API key from config/api-keys.json, also accepted in an X-API-Key header',
+        },
+      },
+      schemas: Object.fromEntries(Object.entries(schemas).sort(([a], [b]) => a.localeCompare(b))),
+    },
+  };
+}
+
+function main(): number {
+  const document = JSON.stringify(generateDocument(), null, 2) + '\n';
+  const relativePath = path.relative(ROOT_DIR, OUTPUT_FILE);
+
+  if (process.argv.includes('--check')) {
+    const current = fs.existsSync(OUTPUT_FILE) ? fs.readFileSync(OUTPUT_FILE, 'utf8') : null;
+    if (current !== document) {
+      console.error(`${relativePath} is out of date; run npm run openapi`);
+      return 1;
+    }
+    console.log(`${relativePath} is up to date`);
+    return 0;
+  }
+
+  fs.writeFileSync(OUTPUT_FILE, document);
+  console.log(`Wrote ${relativePath}`);
+  return 0;
+}
+
+process.exitCode = main();
@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+import os from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { PublicKey } from '@solana/web3.js';
+import {
+  getTokenDetails,
+  getTokensByCreator,
+  searchTokens,
+  subscribeToNewMints,
+  TokenInfo,
+} from '../utils/helius';
+import { serializeTokenInfo } from '../utils/api';
+import { csvHeader, tokensToCsv, tokensToJson, tokenToCsvRow } from '../utils/export';
+import { formatDateTime, formatTokenAmount, formatUsd, shortenAddress } from '../utils/format';
+import { setLogMode } from '../utils/logger';
+import { DEFAULT_MIN_SCORE, scoreTokenMatch } from '../utils/searchScore';
+import { setDefaultTokenIndexPath } from '../utils/tokenIndex';
+import {
+  createEndpointProvider,
+  getTokenDataProvider,
+  isTokenDataProviderConfigured,
+  TokenDataProvider,
+} from '../utils/tokenDataProvider';
+
+// Command-line front end to the same lookups the web app uses. Output is
+// plain text by default, or the export formats with --json and --csv.
+
+// Scripts branch on these, so they only ever gain new values
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_NOT_FOUND = 3;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+// Search pages until it has --limit results; a rare ticker could otherwise
+// scan token-program history indefinitely
+const MAX_SEARCH_PAGES = 10;
+const DEFAULT_CREATOR_DEPTH = 1000;
+
+const USAGE = `Usage: sol-track <command> [options]
+
+Commands:
+  search <query>     Find tokens by ticker, name or address
+  token <address>    Show details for a mint
+  creator <wallet>   List tokens a wallet has deployed, newest first
+  watch <ticker>     Print newly initialized mints matching a ticker until stopped
+
+Options:
+  --json             Print JSON (JSON lines for watch)
+  --csv              Print CSV with the export columns
+  --limit <n>        Maximum number of tokens (search default ${DEFAULT_SEARCH_LIMIT}; watch exits after n matches)
+  --rpc <url>        Solana RPC endpoint, instead of the provider configured in the environment
+  --min-score <n>    Minimum match score, 0-100, for search and watch (default ${DEFAULT_MIN_SCORE})
+  --verbose          Print full stack traces for errors the lookups recover from
+  --quiet            Print no diagnostics, only results and fatal errors
+  -h, --help         Show this help
+
+Exit codes: 0 found, 1 error, 2 bad usage, 3 nothing found.
+`;
+
+type OutputFormat = 'text' | 'json' | 'csv';
+
+interface CliOptions {
+  format: OutputFormat;
+  limit?: number;
+  minScore: number;
+  provider: TokenDataProvider;
+}
+
+// The index lives in the user's cache directory rather than wherever the CLI
+// happens to run; TOKEN_INDEX_PATH still overrides it
+function getCacheDirectory(): string {
+  return path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'sol-track');
+}
+
+// Thrown for bad arguments so main can print usage and exit with EXIT_USAGE
+class UsageError extends Error {}
+
+function parsePositiveInteger(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) throw new UsageError(`${flag} must be a positive integer`);
+  return number;
+}
+
+function requireAddress(value: string | undefined, label: string): string {
+  if (!value) throw new UsageError(`Missing ${label}`);
+  try {
+    new PublicKey(value);
+  } catch {
+    throw new UsageError(`Invalid ${label}: ${value}`);
+  }
+  return value;
+}
+
+function describeToken(token: TokenInfo): string {
+  const parts = [
+    `${token.symbol.padEnd(10)} ${token.name.padEnd(24)} ${token.address}`,
+    token.mintDate ? `minted ${formatDateTime(token.mintDate)}` : null,
+    token.match ? `score ${token.match.score}` : null,
+    token.risk ? `risk ${token.risk.level}` : null,
+    token.verification?.status === 'impersonator' ? 'IMPERSONATOR' : null,
+  ];
+  return parts.filter(Boolean).join('  ');
+}
+
+function describeTokenDetails(token: TokenInfo): string {
+  const rows: Array<[string, string | undefined]> = [
+    ['Address', token.address],
+    ['Name', token.name],
+    ['Symbol', token.symbol],
+    ['Program', token.programId],
+    ['Decimals', token.decimals?.toString()],
+    ['Supply', token.supply !== undefined && token.decimals !== undefined
+      ? formatTokenAmount(token.supply, token.decimals)
+      : token.supply],
+    ['Mint authority', token.mintAuthority === null ? 'revoked' : token.mintAuthority],
+    ['Freeze authority', token.freezeAuthority === null ? 'revoked' : token.freezeAuthority],
+    ['Minted', token.mintDate ? formatDateTime(token.mintDate) : 'unknown'],
+    ['Deployer', token.creator?.deployer],
+    ['Creation tx', token.creator?.signature],
+    ['Holders', token.holders?.toLocaleString('en-US')],
+    ['Price', token.market?.priceUsd !== undefined ? `$${token.market.priceUsd}` : undefined],
+    ['Liquidity', token.market?.liquidityUsd !== undefined ? formatUsd(token.market.liquidityUsd) : undefined],
+    ['Risk', token.risk ? `${token.risk.level} (${token.risk.score}/100)` : undefined],
+    ['Verification', token.verification?.status],
+  ];
+  return rows
+    .filter((row): row is [string, string] => row[1] !== undefined)
+    .map(([label, value]) => `${`${label}:`.padEnd(18)}${value}`)
+    .join('\n');
+}
+
+function formatTokens(tokens: TokenInfo[], format: OutputFormat, query?: string): string {
+  const serialized = tokens.map(serializeTokenInfo);
+  if (format === 'json') return tokensToJson(serialized, query) + '\n';
+  if (format === 'csv') return tokensToCsv(serialized);
+  return tokens.map(describeToken).join('\n') + '\n';
+}
+
+async function runSearch(query: string | undefined, options: CliOptions): Promise<number> {
+  if (!query) throw new UsageError('Missing search query');
+  const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+
+  const tokens: TokenInfo[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page < MAX_SEARCH_PAGES && tokens.length < limit; page++) {
+    const result = await searchTokens(query, { cursor, minScore: options.minScore, provider: options.provider });
+    tokens.push(...result.tokens.filter(token => !tokens.some(existing => existing.address === token.address)));
+    if (!result.hasMore || !result.cursor) break;
+    cursor = result.cursor;
+  }
+
+  if (tokens.length === 0) {
+    console.error(`No tokens found for "${query}"`);
+    return EXIT_NOT_FOUND;
+  }
+  process.stdout.write(formatTokens(tokens.slice(0, limit), options.format, query));
+  return EXIT_OK;
+}
+
+async function runToken(address: string | undefined, options: CliOptions): Promise<number> {
+  const mint = requireAddress(address, 'token address');
+  const token = await getTokenDetails(mint, options.provider);
+  if (!token) {
+    console.error(`${mint} is not a token mint`);
+    return EXIT_NOT_FOUND;
+  }
+
+  process.stdout.write(options.format === 'text'
+    ? describeTokenDetails(token) + '\n'
+    : formatTokens([token], options.format));
+  return EXIT_OK;
+}
+
+async function runCreator(wallet: string | undefined, options: CliOptions): Promise<number> {
+  const address = requireAddress(wallet, 'wallet address');
+  const tokens = await getTokensByCreator(address, DEFAULT_CREATOR_DEPTH, options.provider);
+  if (tokens.length === 0) {
+    console.error(`No tokens deployed by ${shortenAddress(address)} in its latest ${DEFAULT_CREATOR_DEPTH} transactions`);
+    return EXIT_NOT_FOUND;
+  }
+
+  process.stdout.write(formatTokens(tokens.slice(0, options.limit), options.format));
+  return EXIT_OK;
+}
+
+// Runs until interrupted, or until --limit matches have been printed
+function runWatch(ticker: string | undefined, options: CliOptions): Promise<number> {
+  if (!ticker) throw new UsageError('Missing ticker');
+  if (options.format === 'csv') process.stdout.write(csvHeader());
+
+  return new Promise(resolve => {
+    let matches = 0;
+    const stop = () => {
+      unsubscribe();
+      resolve(EXIT_OK);
+    };
+
+    const unsubscribe = subscribeToNewMints(token => {
+      const match = scoreTokenMatch(ticker.toLowerCase(), token);
+      if (!match || match.score < options.minScore) return;
+
+      const matched = { ...token, match };
+      if (options.format === 'json') {
+        process.stdout.write(JSON.stringify(serializeTokenInfo(matched)) + '\n');
+      } else if (options.format === 'csv') {
+        process.stdout.write(tokenToCsvRow(serializeTokenInfo(matched)));
+      } else {
+        process.stdout.write(describeToken(matched) + '\n');
+      }
+
+      matches++;
+      if (options.limit !== undefined && matches >= options.limit) stop();
+    }, options.provider);
+
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+    console.error(`Watching for new "${ticker}" mints, Ctrl-C to stop`);
+  });
+}
+
+const COMMANDS: Record<string, (argument: string | undefined, options: CliOptions) => Promise<number>> = {
+  search: runSearch,
+  token: runToken,
+  creator: runCreator,
+  watch: runWatch,
+};
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      csv: { type: 'boolean' },
+      limit: { type: 'string' },
+      rpc: { type: 'string' },
+      'min-score': { type: 'string' },
+      verbose: { type: 'boolean' },
+      quiet: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  // Library code logs recovered errors with stack traces; keep them short
+  setLogMode(values.quiet ? 'silent' : values.verbose ? 'verbose' : 'brief');
+  setDefaultTokenIndexPath(path.join(getCacheDirectory(), 'token-index.db'));
+
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) throw new UsageError(`Unknown command "${command}"`);
+  if (values.json && values.csv) throw new UsageError('--json and --csv cannot be combined');
+  if (values.verbose && values.quiet) throw new UsageError('--verbose and --quiet cannot be combined');
+
+  const minScore = values['min-score'] !== undefined ? Number(values['min-score']) : DEFAULT_MIN_SCORE;
+  if (!Number.isFinite(minScore) || minScore < 0 || minScore > 100) {
+    throw new UsageError('--min-score must be between 0 and 100');
+  }
+
+  let provider: TokenDataProvider;
+  if (values.rpc) {
+    try {
+      provider = createEndpointProvider(values.rpc);
+    } catch {
+      throw new UsageError(`Invalid --rpc URL: ${values.rpc}`);
+    }
+  } else if (isTokenDataProviderConfigured()) {
+    provider = getTokenDataProvider();
+  } else {
+    console.error('No token data provider is configured: pass --rpc or set HELIUS_API_KEY or SOLANA_RPC_URL');
+    return EXIT_ERROR;
+  }
+
+  return run(rest.join(' ') || undefined, {
+    format: values.json ? 'json' : values.csv ? 'csv' : 'text',
+    limit: parsePositiveInteger(values.limit, '--limit'),
+    minScore,
+    provider,
+  });
+}
+
+// Exit explicitly: the RPC connection and request scheduler keep handles
+// open. Waiting for stdout to drain keeps piped output from being cut off.
+function exit(code: number) {
+  process.stdout.write('', () => process.exit(code));
+}
+
+main(process.argv.slice(2)).then(exit, error => {
+  if (error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS')) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    exit(EXIT_USAGE);
+    return;
+  }
+  console.error('Error:', error instanceof Error ? error.message : error);
+  exit(EXIT_ERROR);
+});
@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchTokenActivity } from '@/utils/api';
+import { formatDateTime, shortenAddress } from '@/utils/format';
+import type { TokenActivityEvent, TokenActivityType } from '@/utils/activity';
+
+const EVENT_LABELS: Record<TokenActivityType, string> = {
+  initialize: 'Mint created',
+  mint: 'Minted',
+  burn: 'Burned',
+  transfer: 'Transfer',
+  'set-authority': 'Authority changed',
+  freeze: 'Frozen',
+  thaw: 'Thawed',
+  'metadata-update': 'Metadata updated',
+};
+
+function WalletLink({ address }: { address: string }) {
+  return (
+    <a
+      href={`https://solscan.io/account/${address}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="font-mono text-gray-300 hover:text-white"
+      title={address}
+    >
+      {shortenAddress(address)}
+    </a>
+  );
+}
+
+function EventDetails({ event }: { event: TokenActivityEvent }) {
+  if (event.type === 'set-authority') {
+    return (
+      <>
+        {event.authorityType ?? 'authority'} →{' '}
+        {event.newAuthority ? <WalletLink address={event.newAuthority} /> : 'revoked'}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {event.amount !== undefined && <span className="font-mono text-gray-300">{event.amount}</span>}
+      {event.from && <> from <WalletLink address={event.from} /></>}
+      {event.to && <> to <WalletLink address={event.to} /></>}
+    </>
+  );
+}
+
+// Mint, burn, transfer and authority history for the token detail page,
+// newest first, a page at a time
+export default function ActivityTimeline({ address }: { address: string }) {
+  const [events, setEvents] = useState<TokenActivityEvent[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchTokenActivity(address, null, { signal: controller.signal })
+      .then(page => {
+        setEvents(page.events);
+        setCursor(page.cursor);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load token activity:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load token activity');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [address]);
+
+  const loadMore = async () => {
+    if (!cursor) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchTokenActivity(address, cursor);
+      setEvents(current => [...current, ...page.events]);
+      setCursor(page.cursor);
+    } catch (err) {
+      console.error('Failed to load token activity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load token activity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      {events.length > 0 && (
+        <ol className="space-y-2">
+          {events.map((event, index) => (
+            <li
+              key={`${event.signature}-${index}`}
+              className="flex flex-wrap items-baseline gap-x-2 text-sm border-b border-gray-800 pb-2 last:border-b-0"
+            >
+              <span className="font-medium text-gray-200">{EVENT_LABELS[event.type]}</span>
+              <span className="text-gray-400"><EventDetails event={event} /></span>
+              <a
+                href={`https://solscan.io/tx/${event.signature}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-auto text-xs text-blue-400 hover:text-blue-300"
+              >
+                {event.timestamp ? formatDateTime(event.timestamp) : `Slot ${event.slot}`}
+              </a>
+            </li>
+          ))}
+        </ol>
+      )}
+      {!loading && !error && events.length === 0 && (
+        <p className="text-sm text-gray-500">No token activity in the latest transactions.</p>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {loading && <p className="text-sm text-gray-500">Loading activity...</p>}
+      {!loading && cursor && (
+        <button
+          onClick={loadMore}
+          className="mt-3 px-6 py-2 rounded-lg border border-purple-600 text-purple-300 hover:bg-purple-600 hover:text-white transition-colors duration-200"
+        >
+          Load more
+        </button>
+      )}
+    </>
+  );
+}
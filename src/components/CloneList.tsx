@@ -0,0 +1,33 @@
+import Link from 'next/link';
+import { shortenAddress } from '@/utils/format';
+import type { TokenVerification } from '@/utils/verifiedTokens';
+
+interface Clone {
+  address: string;
+  name: string;
+  symbol: string;
+  verification?: TokenVerification;
+}
+
+// Collapsible list of the possible impersonators grouped under a verified token
+export default function CloneList({ clones }: { clones?: Clone[] }) {
+  if (!clones || clones.length === 0) return null;
+
+  return (
+    <details className="mb-3 rounded-md border border-orange-900 bg-orange-950/30 px-3 py-2">
+      <summary className="cursor-pointer text-xs text-orange-300">
+        {clones.length} possible impersonator{clones.length === 1 ? '' : 's'}
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {clones.map(clone => (
+          <li key={clone.address} className="text-xs text-gray-400 truncate" title={clone.verification?.reasons.join('\n')}>
+            <Link href={`/token/${clone.address}`} className="hover:text-white transition-colors duration-200">
+              <span className="text-gray-300">{clone.symbol}</span> · {clone.name} ·{' '}
+              <span className="font-mono">{shortenAddress(clone.address)}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import type { SerializedTokenInfo } from '@/utils/api';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportFileName,
+  formatTokenExport,
+} from '@/utils/export';
+
+interface ExportButtonsProps {
+  tokens: SerializedTokenInfo[];
+  // Used in the file name, e.g. the search query or token symbol
+  label: string;
+  query?: string;
+}
+
+// CSV and JSON download of tokens already loaded in the page
+export default function ExportButtons({ tokens, label, query }: ExportButtonsProps) {
+  const download = (format: ExportFormat) => {
+    const blob = new Blob([formatTokenExport(tokens, format, query)], { type: EXPORT_CONTENT_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = exportFileName(label, format);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-400">
+      <span>Export</span>
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format}
+          onClick={() => download(format)}
+          disabled={tokens.length === 0}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-full border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 transition-colors duration-200 disabled:opacity-50"
+        >
+          <ArrowDownTrayIcon className="h-3 w-3" />
+          {format.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+}
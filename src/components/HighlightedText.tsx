@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react';
+import type { MatchSpan } from '@/utils/searchScore';
+
+// Render text with the spans that matched the search query highlighted
+export default function HighlightedText({ text, spans }: { text: string; spans?: MatchSpan[] }) {
+  if (!spans || spans.length === 0) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const { start, end } of spans) {
+    // Spans come from the server; ignore any that do not fit this text
+    if (start < position || end > text.length || start >= end) continue;
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-purple-500/30 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
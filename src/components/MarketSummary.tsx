@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchTokenMarket } from '@/utils/api';
+import { formatLpStatus, formatPoolPrice, formatPrice, formatUsd } from '@/utils/format';
+import type { TokenMarket } from '@/utils/market';
+
+// Price, liquidity and pools for a result card. Market data costs eight
+// getProgramAccounts calls per token, so a card only loads it when asked
+// rather than every result on the page paying for it.
+export default function MarketSummary({ address, market: initialMarket }: { address: string; market?: TokenMarket }) {
+  const [market, setMarket] = useState<TokenMarket | null>(initialMarket ?? null);
+  const [requested, setRequested] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (initialMarket || !requested) return;
+
+    const controller = new AbortController();
+    fetchTokenMarket(address, { signal: controller.signal })
+      .then(response => setMarket(response.market))
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          console.error('Failed to load market data:', error);
+          setFailed(true);
+        }
+      });
+    return () => controller.abort();
+  }, [address, initialMarket, requested]);
+
+  if (failed) {
+    return <p className="text-xs text-gray-500 mb-3">Market data unavailable</p>;
+  }
+  if (!market && !requested) {
+    return (
+      <button
+        type="button"
+        onClick={() => setRequested(true)}
+        className="mb-3 text-xs text-purple-400 hover:text-purple-300 transition-colors duration-200"
+      >
+        Show price and liquidity
+      </button>
+    );
+  }
+  if (!market) {
+    return <p className="text-xs text-gray-500 mb-3">Loading market data...</p>;
+  }
+  if (market.pools.length === 0) {
+    return <p className="text-xs text-gray-500 mb-3">No AMM pools found</p>;
+  }
+
+  const lpStatus = formatLpStatus(market.pools.find(pool => pool.lp)?.lp);
+  return (
+    <details className="mb-3 rounded-md border border-gray-800 px-3 py-2">
+      <summary className="cursor-pointer text-xs text-gray-300">
+        {market.priceUsd !== undefined ? formatPrice(market.priceUsd, '$') : formatPoolPrice(market.pools[0])}
+        {market.liquidityUsd !== undefined && ` · ${formatUsd(market.liquidityUsd)} liquidity`}
+        {lpStatus && ` · ${lpStatus}`}
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {market.pools.map(pool => (
+          <li key={pool.address} className="text-xs text-gray-400 truncate">
+            <a
+              href={`https://solscan.io/account/${pool.address}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:text-white transition-colors duration-200"
+            >
+              {pool.dex} · {pool.quoteSymbol ?? 'other'} · {formatPoolPrice(pool)}
+              {pool.liquidityUsd !== undefined && ` · ${formatUsd(pool.liquidityUsd)}`}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
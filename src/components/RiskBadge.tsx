@@ -0,0 +1,28 @@
+import type { RiskReport } from '@/utils/risk';
+
+const LEVEL_STYLES: Record<RiskReport['level'], string> = {
+  low: 'bg-green-900 text-green-300 border-green-800',
+  medium: 'bg-yellow-900/60 text-yellow-300 border-yellow-800',
+  high: 'bg-red-900/60 text-red-300 border-red-800',
+};
+
+const LEVEL_LABELS: Record<RiskReport['level'], string> = {
+  low: 'Low risk',
+  medium: 'Medium risk',
+  high: 'High risk',
+};
+
+// Compact risk score badge for result cards and lists
+export default function RiskBadge({ risk }: { risk?: RiskReport }) {
+  if (!risk) return null;
+
+  const failed = risk.checks.filter(check => check.status === 'fail').map(check => check.label);
+  return (
+    <span
+      className={`px-2 py-1 text-xs rounded-full border whitespace-nowrap ${LEVEL_STYLES[risk.level]}`}
+      title={failed.length > 0 ? `Failed: ${failed.join(', ')}` : 'No failed checks'}
+    >
+      {LEVEL_LABELS[risk.level]} · {risk.score}
+    </span>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AUTHORITY_FILTERS,
+  AuthorityFilter,
+  countActiveFilters,
+  SEARCH_SORTS,
+  SearchFilters,
+  SearchSort,
+  SOURCE_FILTERS,
+  TokenKindFilter,
+} from '@/utils/searchFilters';
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  sort: SearchSort;
+  onChange: (filters: SearchFilters, sort: SearchSort) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  'px-2 py-1 bg-gray-800 rounded-md border border-gray-700 focus:outline-none focus:border-purple-500 text-white text-sm';
+
+function toNumber(value: string): number | undefined {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+// Filters and sort for token search. Selects apply at once; the date and
+// supply fields apply with the Apply button so typing does not search on
+// every keystroke. Remount with a new key to load changed props.
+export default function SearchFilterBar({ filters, sort, onChange, disabled }: SearchFilterBarProps) {
+  const [draft, setDraft] = useState(filters);
+  const [minSupply, setMinSupply] = useState(filters.minSupply?.toString() ?? '');
+  const [maxSupply, setMaxSupply] = useState(filters.maxSupply?.toString() ?? '');
+
+  const apply = (changes: SearchFilters = {}, nextSort = sort) => {
+    const next = { ...draft, minSupply: toNumber(minSupply), maxSupply: toNumber(maxSupply), ...changes };
+    setDraft(next);
+    onChange(next, nextSort);
+  };
+
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 mb-8 p-4 rounded-lg bg-[#1E293B] border border-gray-800 text-sm text-gray-400">
+      <label className="flex flex-col gap-1">
+        Minted from
+        <input
+          type="date"
+          value={draft.mintedAfter ?? ''}
+          onChange={e => setDraft({ ...draft, mintedAfter: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        to
+        <input
+          type="date"
+          value={draft.mintedBefore ?? ''}
+          onChange={e => setDraft({ ...draft, mintedBefore: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        Supply
+        <span className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            value={minSupply}
+            onChange={e => setMinSupply(e.target.value)}
+            placeholder="min"
+            className={`${inputClass} w-24`}
+          />
+          <input
+            type="number"
+            min={0}
+            value={maxSupply}
+            onChange={e => setMaxSupply(e.target.value)}
+            placeholder="max"
+            className={`${inputClass} w-24`}
+          />
+        </span>
+      </label>
+      <label className="flex flex-col gap-1">
+        Source
+        <select
+          value={draft.source ?? ''}
+          onChange={e => apply({ source: e.target.value || undefined })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">Any</option>
+          {SOURCE_FILTERS.map(source => (
+            <option key={source} value={source}>{source}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        Type
+        <select
+          value={draft.kind ?? ''}
+          onChange={e => apply({ kind: (e.target.value || undefined) as TokenKindFilter | undefined })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">Any</option>
+          <option value="fungible">Fungible</option>
+          <option value="nft">NFT</option>
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        Authorities
+        <select
+          value={draft.authority ?? ''}
+          onChange={e => apply({ authority: (e.target.value || undefined) as AuthorityFilter | undefined })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">Any</option>
+          {AUTHORITY_FILTERS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        Sort by
+        <select
+          value={sort}
+          onChange={e => apply({}, e.target.value as SearchSort)}
+          disabled={disabled}
+          className={inputClass}
+        >
+          {SEARCH_SORTS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 py-1">
+        <input
+          type="checkbox"
+          checked={draft.hideUnnamed ?? false}
+          onChange={e => apply({ hideUnnamed: e.target.checked || undefined })}
+          disabled={disabled}
+        />
+        Hide unnamed
+      </label>
+      <div className="flex items-center gap-2 ml-auto">
+        <button
+          onClick={() => apply()}
+          disabled={disabled}
+          className="px-3 py-1 rounded-full border border-purple-600 text-purple-300 hover:bg-purple-600 hover:text-white transition-colors duration-200 disabled:opacity-50"
+        >
+          Apply
+        </button>
+        {activeCount > 0 && (
+          <button
+            onClick={() => onChange({}, sort)}
+            disabled={disabled}
+            className="px-3 py-1 rounded-full border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 transition-colors duration-200 disabled:opacity-50"
+          >
+            Clear {activeCount} filter{activeCount === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { GlobeAltIcon } from '@heroicons/react/24/outline';
+import type { TokenLinks as Links } from '@/utils/offchainMetadata';
+
+const LINK_LABELS: Array<[keyof Links, string]> = [
+  ['website', 'Website'],
+  ['twitter', 'X / Twitter'],
+  ['telegram', 'Telegram'],
+];
+
+// Website and social links resolved from a token's off-chain metadata
+export default function TokenLinks({ links }: { links?: Links }) {
+  const available = LINK_LABELS.filter(([key]) => links?.[key]);
+  if (!links || available.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {available.map(([key, label]) => (
+        <a
+          key={key}
+          href={links[key]}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-gray-800 text-gray-300 hover:text-white hover:bg-gray-700 transition-colors duration-200"
+        >
+          {key === 'website' && <GlobeAltIcon className="h-3 w-3" />}
+          {label}
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+
+interface TokenLogoProps {
+  image?: string;
+  symbol: string;
+  size?: number;
+}
+
+// Token logo from off-chain metadata, falling back to the symbol's initials
+export default function TokenLogo({ image, symbol, size = 40 }: TokenLogoProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (!image || failed) {
+    return (
+      <div
+        className="rounded-full bg-gray-700 text-gray-300 flex items-center justify-center font-semibold flex-shrink-0"
+        style={{ width: size, height: size, fontSize: size / 3 }}
+      >
+        {symbol.slice(0, 2).toUpperCase()}
+      </div>
+    );
+  }
+
+  return (
+    <Image
+      src={image}
+      alt={`${symbol} logo`}
+      width={size}
+      height={size}
+      unoptimized
+      onError={() => setFailed(true)}
+      className="rounded-full object-cover bg-gray-700 flex-shrink-0"
+      style={{ width: size, height: size }}
+    />
+  );
+}
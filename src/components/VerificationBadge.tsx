@@ -0,0 +1,28 @@
+import type { TokenVerification } from '@/utils/verifiedTokens';
+
+// Badge marking a token as verified or as a possible impersonator
+export default function VerificationBadge({ verification }: { verification?: TokenVerification }) {
+  if (verification?.status === 'verified') {
+    return (
+      <span
+        className="px-2 py-1 text-xs rounded-full border whitespace-nowrap bg-blue-900/60 text-blue-300 border-blue-800"
+        title="Listed on the verified token list"
+      >
+        Verified
+      </span>
+    );
+  }
+
+  if (verification?.status === 'impersonator') {
+    return (
+      <span
+        className="px-2 py-1 text-xs rounded-full border whitespace-nowrap bg-orange-900/60 text-orange-300 border-orange-800"
+        title={verification.reasons.join('\n')}
+      >
+        Possible impersonator
+      </span>
+    );
+  }
+
+  return null;
+}
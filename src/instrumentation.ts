@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.TOKEN_INDEXER_ENABLED !== 'true') return;
+  // The crawler's traffic would end up in recordings, and replays cannot serve it
+  if (process.env.RPC_RECORDING_MODE) return;
+
+  const { startIndexer } = await import('./utils/indexer');
+  startIndexer();
+}
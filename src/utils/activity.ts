@@ -0,0 +1,176 @@
+import { PublicKey } from '@solana/web3.js';
+import type { ParsedInstruction, ParsedTransactionWithMeta, PartiallyDecodedInstruction } from '@solana/web3.js';
+import { findMetadataAddress, METADATA_PROGRAM_ID } from './metaplex';
+
+// Classifies a mint's transactions into timeline events. Only instructions
+// the RPC parses (SPL Token and Token-2022) are read, plus calls to the
+// Metaplex metadata program that touch the mint's metadata account.
+
+export type TokenActivityType =
+  | 'initialize'
+  | 'mint'
+  | 'burn'
+  | 'transfer'
+  | 'set-authority'
+  | 'freeze'
+  | 'thaw'
+  | 'metadata-update';
+
+export interface TokenActivityEvent {
+  signature: string;
+  slot: number;
+  // ISO 8601, or null when the block time is unknown
+  timestamp: string | null;
+  type: TokenActivityType;
+  // Amount in whole tokens as a decimal string, and in base units
+  amount?: string;
+  rawAmount?: string;
+  // Wallets on either side where the transaction shows the token account
+  // owner, otherwise the token accounts themselves
+  from?: string;
+  to?: string;
+  // Signer that authorized the instruction
+  authority?: string;
+  // set-authority only: which authority changed, and to whom (null revokes)
+  authorityType?: string;
+  newAuthority?: string | null;
+}
+
+const TOKEN_PROGRAMS = ['spl-token', 'spl-token-2022'];
+
+const INSTRUCTION_TYPES: Record<string, TokenActivityType> = {
+  initializeMint: 'initialize',
+  initializeMint2: 'initialize',
+  mintTo: 'mint',
+  mintToChecked: 'mint',
+  burn: 'burn',
+  burnChecked: 'burn',
+  transfer: 'transfer',
+  transferChecked: 'transfer',
+  transferCheckedWithFee: 'transfer',
+  setAuthority: 'set-authority',
+  freezeAccount: 'freeze',
+  thawAccount: 'thaw',
+};
+
+// Raw base-unit amount as a plain decimal string, e.g. 1500000 with 6
+// decimals is "1.5"
+export function toDecimalAmount(raw: string, decimals: number): string {
+  const padded = raw.padStart(decimals + 1, '0');
+  const whole = padded.slice(0, padded.length - decimals);
+  const fraction = decimals > 0 ? padded.slice(-decimals).replace(/0+$/, '') : '';
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+interface TokenAccountInfo {
+  mint: string;
+  owner?: string;
+}
+
+// Token accounts the transaction touched, with their mint and owner, from
+// the balances the RPC reports before and after it
+function getTokenAccounts(tx: ParsedTransactionWithMeta): Map<string, TokenAccountInfo> {
+  const accounts = new Map<string, TokenAccountInfo>();
+  const keys = tx.transaction.message.accountKeys;
+  for (const balance of [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]) {
+    const address = keys[balance.accountIndex]?.pubkey.toBase58();
+    if (address) accounts.set(address, { mint: balance.mint, owner: balance.owner ?? accounts.get(address)?.owner });
+  }
+  return accounts;
+}
+
+function getInstructions(tx: ParsedTransactionWithMeta): Array<ParsedInstruction | PartiallyDecodedInstruction> {
+  return [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions?.flatMap(inner => inner.instructions) ?? []),
+  ];
+}
+
+function readAmount(info: Record<string, unknown>): string | undefined {
+  const tokenAmount = info.tokenAmount as { amount?: unknown } | undefined;
+  const amount = tokenAmount?.amount ?? info.amount;
+  return typeof amount === 'string' || typeof amount === 'number' ? String(amount) : undefined;
+}
+
+function readString(info: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    if (typeof info[key] === 'string') return info[key] as string;
+  }
+  return undefined;
+}
+
+// Timeline events for one transaction, in instruction order
+export function classifyTokenActivity(
+  tx: ParsedTransactionWithMeta,
+  mint: string,
+  decimals: number
+): TokenActivityEvent[] {
+  const tokenAccounts = getTokenAccounts(tx);
+  const metadataAddress = findMetadataAddress(new PublicKey(mint)).toBase58();
+  const base = {
+    signature: tx.transaction.signatures[0],
+    slot: tx.slot,
+    timestamp: tx.blockTime ? new Date(tx.blockTime * 1000).toISOString() : null,
+  };
+  const ownerOf = (account?: string) => (account && tokenAccounts.get(account)?.owner) || account;
+  const events: TokenActivityEvent[] = [];
+
+  for (const instruction of getInstructions(tx)) {
+    if (!('parsed' in instruction)) {
+      const touchesMetadata = instruction.programId.equals(METADATA_PROGRAM_ID) &&
+        instruction.accounts.some(account => account.toBase58() === metadataAddress);
+      if (touchesMetadata) events.push({ ...base, type: 'metadata-update' });
+      continue;
+    }
+    if (!TOKEN_PROGRAMS.includes(instruction.program)) continue;
+
+    const parsedType: string = instruction.parsed?.type ?? '';
+    const info: Record<string, unknown> = instruction.parsed?.info ?? {};
+    const account = readString(info, 'account', 'source');
+    // Plain transfers name no mint; the token balances say which it was
+    const instructionMint = readString(info, 'mint', 'metadata') ?? (account ? tokenAccounts.get(account)?.mint : undefined);
+    if (instructionMint !== mint) continue;
+
+    // Token-2022 keeps metadata on the mint itself
+    if (parsedType.includes('TokenMetadata')) {
+      events.push({ ...base, type: 'metadata-update', authority: readString(info, 'updateAuthority') });
+      continue;
+    }
+
+    const type = INSTRUCTION_TYPES[parsedType];
+    if (!type) continue;
+
+    const rawAmount = readAmount(info);
+    const event: TokenActivityEvent = {
+      ...base,
+      type,
+      rawAmount,
+      amount: rawAmount !== undefined ? toDecimalAmount(rawAmount, decimals) : undefined,
+      authority: readString(info, 'authority', 'multisigAuthority', 'mintAuthority', 'freezeAuthority', 'multisigOwner'),
+    };
+
+    switch (type) {
+      case 'mint':
+        event.to = ownerOf(readString(info, 'account'));
+        break;
+      case 'burn':
+        event.from = ownerOf(readString(info, 'account'));
+        break;
+      case 'transfer':
+        event.from = ownerOf(readString(info, 'source'));
+        event.to = ownerOf(readString(info, 'destination'));
+        break;
+      case 'set-authority':
+        event.authorityType = readString(info, 'authorityType');
+        event.newAuthority = readString(info, 'newAuthority') ?? null;
+        break;
+      case 'freeze':
+      case 'thaw':
+        event.to = ownerOf(readString(info, 'account'));
+        break;
+    }
+    events.push(event);
+  }
+
+  return events;
+}
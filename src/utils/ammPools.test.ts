@@ -0,0 +1,433 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  AMM_PROGRAMS,
+  AmmProgram,
+  decodeMeteoraDlmm,
+  decodeOrcaWhirlpool,
+  decodePool,
+  decodeRaydiumAmmV4,
+  decodeRaydiumCpmm,
+  getPoolPrice,
+} from './ammPools';
+import { createFixtureProvider } from './fixtureProvider';
+import { getTokenMarket, USDC_MINT, WSOL_MINT } from './market';
+import type { ParsedAccount } from './tokenDataProvider';
+
+// Pool accounts are built field by field from each program's account struct,
+// so the offsets come from the field sizes rather than from the decoders.
+// Fields a test does not set are filled with 0xa5, so a decoder reading the
+// wrong offset gets garbage instead of a plausible zero.
+
+type FieldType = 'u8' | 'u16' | 'i32' | 'u64' | 'u128' | 'pubkey' | number;
+type Layout = Array<[string, FieldType]>;
+type FieldValue = number | bigint | string | Buffer;
+
+const FIELD_SIZES = { u8: 1, u16: 2, i32: 4, u64: 8, u128: 16, pubkey: 32 };
+
+function encodeAccount(layout: Layout, values: Record<string, FieldValue>): Buffer {
+  const size = layout.reduce((total, [, type]) => total + (typeof type === 'number' ? type : FIELD_SIZES[type]), 0);
+  const data = Buffer.alloc(size, 0xa5);
+  let offset = 0;
+
+  for (const [name, type] of layout) {
+    const length = typeof type === 'number' ? type : FIELD_SIZES[type];
+    const value = values[name];
+    if (value !== undefined) {
+      if (type === 'u8') data.writeUInt8(Number(value), offset);
+      else if (type === 'u16') data.writeUInt16LE(Number(value), offset);
+      else if (type === 'i32') data.writeInt32LE(Number(value), offset);
+      else if (type === 'u64') data.writeBigUInt64LE(BigInt(value as number | bigint), offset);
+      else if (type === 'u128') {
+        const big = BigInt(value as number | bigint);
+        data.writeBigUInt64LE(big & BigInt('0xffffffffffffffff'), offset);
+        data.writeBigUInt64LE(big >> BigInt(64), offset + 8);
+      } else if (type === 'pubkey') new PublicKey(value as string).toBuffer().copy(data, offset);
+      else (value as Buffer).copy(data, offset);
+    }
+    offset += length;
+  }
+  return data;
+}
+
+function anchorDiscriminator(name: string): Buffer {
+  return createHash('sha256').update(`account:${name}`).digest().subarray(0, 8);
+}
+
+const u64s = (...names: string[]): Layout => names.map(name => [name, 'u64']);
+
+// raydium-amm program, state.rs AmmInfo
+const RAYDIUM_AMM_V4_LAYOUT: Layout = [
+  ...u64s('status', 'nonce', 'orderNum', 'depth', 'coinDecimals', 'pcDecimals', 'state', 'resetFlag'),
+  ...u64s('minSize', 'volMaxCutRatio', 'amountWave', 'coinLotSize', 'pcLotSize', 'minPriceMultiplier'),
+  ...u64s('maxPriceMultiplier', 'sysDecimalValue'),
+  // Fees
+  ...u64s('minSeparateNumerator', 'minSeparateDenominator', 'tradeFeeNumerator', 'tradeFeeDenominator'),
+  ...u64s('pnlNumerator', 'pnlDenominator', 'swapFeeNumerator', 'swapFeeDenominator'),
+  // StateData
+  ...u64s('needTakePnlCoin', 'needTakePnlPc', 'totalPnlPc', 'totalPnlCoin', 'poolOpenTime', 'punishPcAmount'),
+  ...u64s('punishCoinAmount', 'orderbookToInitTime'),
+  ['swapCoinInAmount', 'u128'],
+  ['swapPcOutAmount', 'u128'],
+  ['swapAccPcFee', 'u64'],
+  ['swapPcInAmount', 'u128'],
+  ['swapCoinOutAmount', 'u128'],
+  ['swapAccCoinFee', 'u64'],
+  ['coinVault', 'pubkey'],
+  ['pcVault', 'pubkey'],
+  ['coinVaultMint', 'pubkey'],
+  ['pcVaultMint', 'pubkey'],
+  ['lpMint', 'pubkey'],
+  ['openOrders', 'pubkey'],
+  ['market', 'pubkey'],
+  ['marketProgram', 'pubkey'],
+  ['targetOrders', 'pubkey'],
+  ['padding1', 64],
+  ['ammOwner', 'pubkey'],
+  ['lpAmount', 'u64'],
+  ['clientOrderId', 'u64'],
+  ['recentEpoch', 'u64'],
+  ['padding2', 8],
+];
+
+// raydium-cp-swap program, states/pool.rs PoolState
+const RAYDIUM_CPMM_LAYOUT: Layout = [
+  ['discriminator', 8],
+  ['ammConfig', 'pubkey'],
+  ['poolCreator', 'pubkey'],
+  ['token0Vault', 'pubkey'],
+  ['token1Vault', 'pubkey'],
+  ['lpMint', 'pubkey'],
+  ['token0Mint', 'pubkey'],
+  ['token1Mint', 'pubkey'],
+  ['token0Program', 'pubkey'],
+  ['token1Program', 'pubkey'],
+  ['observationKey', 'pubkey'],
+  ['authBump', 'u8'],
+  ['status', 'u8'],
+  ['lpMintDecimals', 'u8'],
+  ['mint0Decimals', 'u8'],
+  ['mint1Decimals', 'u8'],
+  ...u64s('lpSupply', 'protocolFeesToken0', 'protocolFeesToken1', 'fundFeesToken0', 'fundFeesToken1'),
+  ...u64s('openTime', 'recentEpoch'),
+  ['padding', 31 * 8],
+];
+
+// whirlpool program, state/whirlpool.rs Whirlpool
+const ORCA_WHIRLPOOL_LAYOUT: Layout = [
+  ['discriminator', 8],
+  ['whirlpoolsConfig', 'pubkey'],
+  ['whirlpoolBump', 'u8'],
+  ['tickSpacing', 'u16'],
+  ['feeTierIndexSeed', 2],
+  ['feeRate', 'u16'],
+  ['protocolFeeRate', 'u16'],
+  ['liquidity', 'u128'],
+  ['sqrtPrice', 'u128'],
+  ['tickCurrentIndex', 'i32'],
+  ['protocolFeeOwedA', 'u64'],
+  ['protocolFeeOwedB', 'u64'],
+  ['tokenMintA', 'pubkey'],
+  ['tokenVaultA', 'pubkey'],
+  ['feeGrowthGlobalA', 'u128'],
+  ['tokenMintB', 'pubkey'],
+  ['tokenVaultB', 'pubkey'],
+  ['feeGrowthGlobalB', 'u128'],
+  ['rewardLastUpdatedTimestamp', 'u64'],
+  // Three WhirlpoolRewardInfo of 128 bytes
+  ['rewardInfos', 3 * 128],
+];
+
+// lb_clmm program, state/lb_pair.rs LbPair
+const METEORA_DLMM_LAYOUT: Layout = [
+  ['discriminator', 8],
+  ['parameters', 32],
+  ['vParameters', 32],
+  ['bumpSeed', 1],
+  ['binStepSeed', 2],
+  ['pairType', 'u8'],
+  ['activeId', 'i32'],
+  ['binStep', 'u16'],
+  ['status', 'u8'],
+  ['requireBaseFactorSeed', 'u8'],
+  ['baseFactorSeed', 2],
+  ['activationType', 'u8'],
+  ['creatorPoolOnOffControl', 'u8'],
+  ['tokenXMint', 'pubkey'],
+  ['tokenYMint', 'pubkey'],
+  ['reserveX', 'pubkey'],
+  ['reserveY', 'pubkey'],
+  ['protocolFeeAmountX', 'u64'],
+  ['protocolFeeAmountY', 'u64'],
+  ['padding1', 32],
+  // Two RewardInfo of 144 bytes
+  ['rewardInfos', 2 * 144],
+  ['oracle', 'pubkey'],
+  ['binArrayBitmap', 16 * 8],
+  ['lastUpdatedAt', 'u64'],
+  ['padding2', 32],
+  ['preActivationSwapAddress', 'pubkey'],
+  ['baseKey', 'pubkey'],
+  ['activationPoint', 'u64'],
+  ['preActivationDuration', 'u64'],
+  ['padding3', 8],
+  ['padding4', 'u64'],
+  ['creator', 'pubkey'],
+  ['tokenMintXProgramFlag', 'u8'],
+  ['tokenMintYProgramFlag', 'u8'],
+  ['reserved', 22],
+];
+
+// Distinct, valid addresses for vaults and LP mints
+const address = (seed: number) => new PublicKey(Buffer.alloc(32, seed)).toBase58();
+
+const TOKEN_MINT = address(1);
+const SOL_USD_REFERENCE_POOL = '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2';
+
+// TOKEN/SOL at 0.0001 SOL, with 5,000 TOKEN and 0.5 SOL of PnL not yet taken
+const raydiumV4Pool = encodeAccount(RAYDIUM_AMM_V4_LAYOUT, {
+  needTakePnlCoin: BigInt(5_000e6),
+  needTakePnlPc: BigInt(0.5e9),
+  coinVault: address(11),
+  pcVault: address(12),
+  coinVaultMint: TOKEN_MINT,
+  pcVaultMint: WSOL_MINT,
+  lpMint: address(13),
+  lpAmount: BigInt(1_000e9),
+});
+
+// SOL/USDC at $150, the reference pool market.ts converts SOL prices with
+const referencePool = encodeAccount(RAYDIUM_AMM_V4_LAYOUT, {
+  needTakePnlCoin: 0,
+  needTakePnlPc: 0,
+  coinVault: address(21),
+  pcVault: address(22),
+  coinVaultMint: WSOL_MINT,
+  pcVaultMint: USDC_MINT,
+  lpMint: address(23),
+  lpAmount: 0,
+});
+
+// USDC/TOKEN at $0.015 a TOKEN; the token is the pool's second mint
+const raydiumCpmmPool = encodeAccount(RAYDIUM_CPMM_LAYOUT, {
+  discriminator: anchorDiscriminator('PoolState'),
+  token0Vault: address(31),
+  token1Vault: address(32),
+  lpMint: address(33),
+  token0Mint: USDC_MINT,
+  token1Mint: TOKEN_MINT,
+  lpSupply: BigInt(500e9),
+  protocolFeesToken0: BigInt(10e6),
+  protocolFeesToken1: BigInt(1_000e6),
+  fundFeesToken0: BigInt(5e6),
+  fundFeesToken1: BigInt(500e6),
+});
+
+// TOKEN/SOL with sqrt(raw price) = 0.3: 0.09 lamports per base unit, which
+// is 0.00009 SOL per TOKEN
+const WHIRLPOOL_SQRT_PRICE = (BigInt(3) << BigInt(64)) / BigInt(10);
+const orcaWhirlpool = encodeAccount(ORCA_WHIRLPOOL_LAYOUT, {
+  discriminator: anchorDiscriminator('Whirlpool'),
+  sqrtPrice: WHIRLPOOL_SQRT_PRICE,
+  protocolFeeOwedA: BigInt(20e6),
+  protocolFeeOwedB: BigInt(0.01e9),
+  tokenMintA: TOKEN_MINT,
+  tokenVaultA: address(41),
+  tokenMintB: WSOL_MINT,
+  tokenVaultB: address(42),
+});
+
+// TOKEN/USDC in 25 basis point bins, active bin -1682: about $0.015
+const meteoraDlmmPair = encodeAccount(METEORA_DLMM_LAYOUT, {
+  discriminator: anchorDiscriminator('LbPair'),
+  activeId: -1682,
+  binStep: 25,
+  tokenXMint: TOKEN_MINT,
+  tokenYMint: USDC_MINT,
+  reserveX: address(51),
+  reserveY: address(52),
+  protocolFeeAmountX: BigInt(300e6),
+  protocolFeeAmountY: BigInt(4e6),
+});
+
+function poolAccount(program: AmmProgram, data: Buffer): ParsedAccount {
+  return { executable: false, lamports: 1, owner: new PublicKey(AMM_PROGRAMS[program].programId), rentEpoch: 0, data };
+}
+
+function parsedAccount(type: 'account' | 'mint', info: Record<string, unknown>): ParsedAccount {
+  return {
+    executable: false,
+    lamports: 1,
+    owner: TOKEN_PROGRAM_ID,
+    rentEpoch: 0,
+    data: { program: 'spl-token', parsed: { type, info }, space: type === 'mint' ? 82 : 165 },
+  };
+}
+
+function vault(mint: string, amount: number, decimals: number): ParsedAccount {
+  return parsedAccount('account', {
+    mint,
+    owner: address(99),
+    tokenAmount: { amount: BigInt(amount).toString(), decimals, uiAmount: amount / 10 ** decimals },
+  });
+}
+
+const lpMint = (supply: number) => parsedAccount('mint', { decimals: 9, supply: BigInt(supply).toString() });
+
+const provider = createFixtureProvider({
+  accounts: {
+    [address(101)]: poolAccount('raydium-amm-v4', raydiumV4Pool),
+    [address(11)]: vault(TOKEN_MINT, 1_000_000e6 + 5_000e6, 6),
+    [address(12)]: vault(WSOL_MINT, 100e9 + 0.5e9, 9),
+    // A quarter of the issued LP tokens left, the rest burned
+    [address(13)]: lpMint(250e9),
+
+    [SOL_USD_REFERENCE_POOL]: poolAccount('raydium-amm-v4', referencePool),
+    [address(21)]: vault(WSOL_MINT, 1_000e9, 9),
+    [address(22)]: vault(USDC_MINT, 150_000e6, 6),
+
+    [address(102)]: poolAccount('raydium-cpmm', raydiumCpmmPool),
+    [address(31)]: vault(USDC_MINT, 30_000e6 + 15e6, 6),
+    [address(32)]: vault(TOKEN_MINT, 2_000_000e6 + 1_500e6, 6),
+    [address(33)]: lpMint(500e9),
+
+    [address(103)]: poolAccount('orca-whirlpool', orcaWhirlpool),
+    [address(41)]: vault(TOKEN_MINT, 400_000e6 + 20e6, 6),
+    [address(42)]: vault(WSOL_MINT, 30e9 + 0.01e9, 9),
+
+    [address(104)]: poolAccount('meteora-dlmm', meteoraDlmmPair),
+    [address(51)]: vault(TOKEN_MINT, 600_000e6 + 300e6, 6),
+    [address(52)]: vault(USDC_MINT, 8_000e6 + 4e6, 6),
+  },
+});
+
+describe('pool decoders', () => {
+  it('builds accounts the size each program allocates', () => {
+    expect(raydiumV4Pool.length).toBe(AMM_PROGRAMS['raydium-amm-v4'].dataSize);
+    expect(raydiumCpmmPool.length).toBe(AMM_PROGRAMS['raydium-cpmm'].dataSize);
+    expect(orcaWhirlpool.length).toBe(AMM_PROGRAMS['orca-whirlpool'].dataSize);
+    expect(meteoraDlmmPair.length).toBe(AMM_PROGRAMS['meteora-dlmm'].dataSize);
+  });
+
+  it('decodes a Raydium AMM v4 pool', () => {
+    expect(decodeRaydiumAmmV4(raydiumV4Pool)).toEqual({
+      program: 'raydium-amm-v4',
+      mintA: TOKEN_MINT,
+      mintB: WSOL_MINT,
+      vaultA: address(11),
+      vaultB: address(12),
+      reservedA: BigInt(5_000e6),
+      reservedB: BigInt(0.5e9),
+      lpMint: address(13),
+      lpIssued: BigInt(1_000e9),
+    });
+  });
+
+  it('decodes a Raydium CPMM pool', () => {
+    expect(decodeRaydiumCpmm(raydiumCpmmPool)).toEqual({
+      program: 'raydium-cpmm',
+      mintA: USDC_MINT,
+      mintB: TOKEN_MINT,
+      vaultA: address(31),
+      vaultB: address(32),
+      reservedA: BigInt(15e6),
+      reservedB: BigInt(1_500e6),
+      lpMint: address(33),
+      lpIssued: BigInt(500e9),
+    });
+  });
+
+  it('decodes an Orca Whirlpool', () => {
+    expect(decodeOrcaWhirlpool(orcaWhirlpool)).toEqual({
+      program: 'orca-whirlpool',
+      mintA: TOKEN_MINT,
+      mintB: WSOL_MINT,
+      vaultA: address(41),
+      vaultB: address(42),
+      reservedA: BigInt(20e6),
+      reservedB: BigInt(0.01e9),
+      sqrtPriceX64: WHIRLPOOL_SQRT_PRICE,
+    });
+  });
+
+  it('decodes a Meteora DLMM pair', () => {
+    expect(decodeMeteoraDlmm(meteoraDlmmPair)).toEqual({
+      program: 'meteora-dlmm',
+      mintA: TOKEN_MINT,
+      mintB: USDC_MINT,
+      vaultA: address(51),
+      vaultB: address(52),
+      reservedA: BigInt(300e6),
+      reservedB: BigInt(4e6),
+      activeBinId: -1682,
+      binStep: 25,
+    });
+  });
+
+  it('rejects accounts of another program or size', () => {
+    expect(decodeRaydiumCpmm(orcaWhirlpool)).toBeNull();
+    expect(decodeOrcaWhirlpool(Buffer.concat([orcaWhirlpool, Buffer.alloc(1)]))).toBeNull();
+    expect(decodeMeteoraDlmm(Buffer.concat([anchorDiscriminator('Whirlpool'), meteoraDlmmPair.subarray(8)]))).toBeNull();
+    expect(decodePool('raydium-amm-v4', raydiumCpmmPool)).toBeNull();
+  });
+});
+
+describe('getPoolPrice', () => {
+  it('prices constant-product pools from their reserves', () => {
+    const pool = decodeRaydiumAmmV4(raydiumV4Pool)!;
+    expect(getPoolPrice(pool, 1_000_000, 100, 6, 9)).toBeCloseTo(0.0001, 10);
+    expect(getPoolPrice(pool, 0, 100, 6, 9)).toBeNull();
+  });
+
+  it('prices a Whirlpool from its sqrt price and the decimal difference', () => {
+    const pool = decodeOrcaWhirlpool(orcaWhirlpool)!;
+    expect(getPoolPrice(pool, 0, 0, 6, 9)).toBeCloseTo(0.00009, 12);
+  });
+
+  it('prices a DLMM pair from its active bin', () => {
+    const pool = decodeMeteoraDlmm(meteoraDlmmPair)!;
+    expect(getPoolPrice(pool, 0, 0, 6, 6)).toBeCloseTo(1.0025 ** -1682, 12);
+    expect(getPoolPrice(pool, 0, 0, 6, 6)).toBeCloseTo(0.015, 5);
+  });
+});
+
+describe('getTokenMarket', () => {
+  it('finds the token in every supported AMM and prices it in USD', async () => {
+    const market = await getTokenMarket(TOKEN_MINT, provider);
+    const byProgram = Object.fromEntries(market.pools.map(pool => [pool.program, pool]));
+
+    expect(Object.keys(byProgram).sort()).toEqual(['meteora-dlmm', 'orca-whirlpool', 'raydium-amm-v4', 'raydium-cpmm']);
+
+    // Protocol-owed amounts are left out of the reserves
+    expect(byProgram['raydium-amm-v4']).toMatchObject({
+      address: address(101),
+      quoteMint: WSOL_MINT,
+      quoteSymbol: 'SOL',
+      tokenReserve: 1_000_000,
+      quoteReserve: 100,
+      lp: { mint: address(13), burnedPct: 75, lockedPct: 0 },
+    });
+    expect(byProgram['raydium-amm-v4'].price).toBeCloseTo(0.0001, 10);
+    expect(byProgram['raydium-amm-v4'].priceUsd).toBeCloseTo(0.015, 10);
+    expect(byProgram['raydium-amm-v4'].liquidityUsd).toBeCloseTo(30_000, 6);
+
+    expect(byProgram['raydium-cpmm']).toMatchObject({ quoteMint: USDC_MINT, tokenReserve: 2_000_000, quoteReserve: 30_000 });
+    expect(byProgram['raydium-cpmm'].price).toBeCloseTo(0.015, 10);
+    expect(byProgram['raydium-cpmm'].lp).toEqual({ mint: address(33), burnedPct: 0, lockedPct: 0 });
+
+    expect(byProgram['orca-whirlpool']).toMatchObject({ quoteMint: WSOL_MINT, tokenReserve: 400_000, quoteReserve: 30 });
+    expect(byProgram['orca-whirlpool'].price).toBeCloseTo(0.00009, 12);
+    expect(byProgram['orca-whirlpool'].priceUsd).toBeCloseTo(0.0135, 10);
+    expect(byProgram['orca-whirlpool'].lp).toBeUndefined();
+
+    expect(byProgram['meteora-dlmm']).toMatchObject({ quoteMint: USDC_MINT, tokenReserve: 600_000, quoteReserve: 8_000 });
+    expect(byProgram['meteora-dlmm'].price).toBeCloseTo(1.0025 ** -1682, 12);
+
+    // Deepest first: the CPMM pool holds $60,000
+    expect(market.pools[0].program).toBe('raydium-cpmm');
+    expect(market.priceUsd).toBeCloseTo(0.015, 10);
+    expect(market.priceSol).toBeCloseTo(0.0001, 10);
+  });
+});
@@ -0,0 +1,195 @@
+import { PublicKey } from '@solana/web3.js';
+
+// Account decoders for the AMM pools market.ts reads prices from. Each
+// decoder takes the raw account data as returned by getAccountInfo and
+// returns null when the data is not a pool of that program, so they can be
+// run against captured account fixtures.
+
+export type AmmProgram = 'raydium-amm-v4' | 'raydium-cpmm' | 'orca-whirlpool' | 'meteora-dlmm';
+
+export interface AmmProgramInfo {
+  programId: string;
+  label: string;
+  // Pool accounts all have this size, used to filter getProgramAccounts
+  dataSize: number;
+  // Offsets of the two mint addresses, for memcmp filters
+  mintOffsets: [number, number];
+}
+
+export const AMM_PROGRAMS: Record<AmmProgram, AmmProgramInfo> = {
+  'raydium-amm-v4': {
+    programId: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+    label: 'Raydium AMM v4',
+    dataSize: 752,
+    mintOffsets: [400, 432],
+  },
+  'raydium-cpmm': {
+    programId: 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C',
+    label: 'Raydium CPMM',
+    dataSize: 637,
+    mintOffsets: [168, 200],
+  },
+  'orca-whirlpool': {
+    programId: 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc',
+    label: 'Orca Whirlpool',
+    dataSize: 653,
+    mintOffsets: [101, 181],
+  },
+  'meteora-dlmm': {
+    programId: 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9t1PpGfmU',
+    label: 'Meteora DLMM',
+    dataSize: 904,
+    mintOffsets: [88, 120],
+  },
+};
+
+export const AMM_PROGRAM_NAMES = Object.keys(AMM_PROGRAMS) as AmmProgram[];
+
+// Pool state needed to price a pool. Token A and B follow the pool's own
+// order; amounts are raw base units.
+export interface DecodedPool {
+  program: AmmProgram;
+  mintA: string;
+  mintB: string;
+  vaultA: string;
+  vaultB: string;
+  // Vault balances owed to the protocol rather than to liquidity providers
+  reservedA: bigint;
+  reservedB: bigint;
+  // Constant-product pools issue an LP token; concentrated ones use positions
+  lpMint?: string;
+  // LP tokens issued by the pool's own accounting. Burning LP tokens lowers
+  // the mint supply but not this figure.
+  lpIssued?: bigint;
+  // Whirlpool price, sqrt(B per A) as Q64.64
+  sqrtPriceX64?: bigint;
+  // DLMM price: (1 + binStep / 10000) ^ activeBinId, B per A
+  activeBinId?: number;
+  binStep?: number;
+}
+
+// Anchor account discriminators, the first 8 bytes of sha256("account:<Name>")
+const WHIRLPOOL_DISCRIMINATOR = Buffer.from([63, 149, 209, 12, 225, 128, 99, 9]);
+const CPMM_POOL_DISCRIMINATOR = Buffer.from([247, 237, 227, 245, 215, 195, 222, 70]);
+const LB_PAIR_DISCRIMINATOR = Buffer.from([33, 11, 49, 98, 181, 101, 177, 13]);
+
+function readPublicKey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+function readU128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigUInt64LE(offset + 8) << BigInt(64));
+}
+
+function hasDiscriminator(data: Buffer, discriminator: Buffer): boolean {
+  return data.subarray(0, 8).equals(discriminator);
+}
+
+export function decodeRaydiumAmmV4(data: Buffer): DecodedPool | null {
+  if (data.length !== AMM_PROGRAMS['raydium-amm-v4'].dataSize) return null;
+
+  return {
+    program: 'raydium-amm-v4',
+    mintA: readPublicKey(data, 400),
+    mintB: readPublicKey(data, 432),
+    vaultA: readPublicKey(data, 336),
+    vaultB: readPublicKey(data, 368),
+    // baseNeedTakePnl and quoteNeedTakePnl
+    reservedA: data.readBigUInt64LE(192),
+    reservedB: data.readBigUInt64LE(200),
+    lpMint: readPublicKey(data, 464),
+    lpIssued: data.readBigUInt64LE(720),
+  };
+}
+
+export function decodeRaydiumCpmm(data: Buffer): DecodedPool | null {
+  if (data.length !== AMM_PROGRAMS['raydium-cpmm'].dataSize || !hasDiscriminator(data, CPMM_POOL_DISCRIMINATOR)) {
+    return null;
+  }
+
+  return {
+    program: 'raydium-cpmm',
+    mintA: readPublicKey(data, 168),
+    mintB: readPublicKey(data, 200),
+    vaultA: readPublicKey(data, 72),
+    vaultB: readPublicKey(data, 104),
+    // Protocol and fund fees accrue in the vaults until collected
+    reservedA: data.readBigUInt64LE(341) + data.readBigUInt64LE(357),
+    reservedB: data.readBigUInt64LE(349) + data.readBigUInt64LE(365),
+    lpMint: readPublicKey(data, 136),
+    lpIssued: data.readBigUInt64LE(333),
+  };
+}
+
+export function decodeOrcaWhirlpool(data: Buffer): DecodedPool | null {
+  if (data.length !== AMM_PROGRAMS['orca-whirlpool'].dataSize || !hasDiscriminator(data, WHIRLPOOL_DISCRIMINATOR)) {
+    return null;
+  }
+
+  return {
+    program: 'orca-whirlpool',
+    mintA: readPublicKey(data, 101),
+    mintB: readPublicKey(data, 181),
+    vaultA: readPublicKey(data, 133),
+    vaultB: readPublicKey(data, 213),
+    reservedA: data.readBigUInt64LE(85),
+    reservedB: data.readBigUInt64LE(93),
+    sqrtPriceX64: readU128(data, 65),
+  };
+}
+
+export function decodeMeteoraDlmm(data: Buffer): DecodedPool | null {
+  if (data.length !== AMM_PROGRAMS['meteora-dlmm'].dataSize || !hasDiscriminator(data, LB_PAIR_DISCRIMINATOR)) {
+    return null;
+  }
+
+  return {
+    program: 'meteora-dlmm',
+    mintA: readPublicKey(data, 88),
+    mintB: readPublicKey(data, 120),
+    vaultA: readPublicKey(data, 152),
+    vaultB: readPublicKey(data, 184),
+    // Unclaimed protocol fees (protocol_fee.amount_x and amount_y)
+    reservedA: data.readBigUInt64LE(216),
+    reservedB: data.readBigUInt64LE(224),
+    activeBinId: data.readInt32LE(76),
+    binStep: data.readUInt16LE(80),
+  };
+}
+
+const DECODERS: Record<AmmProgram, (data: Buffer) => DecodedPool | null> = {
+  'raydium-amm-v4': decodeRaydiumAmmV4,
+  'raydium-cpmm': decodeRaydiumCpmm,
+  'orca-whirlpool': decodeOrcaWhirlpool,
+  'meteora-dlmm': decodeMeteoraDlmm,
+};
+
+export function decodePool(program: AmmProgram, data: Buffer): DecodedPool | null {
+  try {
+    return DECODERS[program](data);
+  } catch {
+    return null;
+  }
+}
+
+// Spot price of token A in token B, in whole tokens. Concentrated pools
+// price from their current tick or bin; constant-product pools from the
+// ratio of their reserves.
+export function getPoolPrice(
+  pool: DecodedPool,
+  reserveA: number,
+  reserveB: number,
+  decimalsA: number,
+  decimalsB: number
+): number | null {
+  const decimalShift = 10 ** (decimalsA - decimalsB);
+
+  if (pool.sqrtPriceX64 !== undefined) {
+    const sqrtPrice = Number(pool.sqrtPriceX64) / 2 ** 64;
+    return sqrtPrice * sqrtPrice * decimalShift;
+  }
+  if (pool.activeBinId !== undefined && pool.binStep !== undefined) {
+    return (1 + pool.binStep / 10_000) ** pool.activeBinId * decimalShift;
+  }
+  return reserveA > 0 ? reserveB / reserveA : null;
+}
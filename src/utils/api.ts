@@ -0,0 +1,199 @@
+import type { SearchResult, TokenActivityPage, TokenInfo } from './helius';
+import type { TokenMarket } from './market';
+import { SearchFilters, SearchSort, writeSearchFilters } from './searchFilters';
+
+// TokenInfo as it arrives over JSON: dates are serialized to ISO strings
+export type SerializedTokenInfo = Omit<TokenInfo, 'mintDate'> & {
+  mintDate?: string;
+};
+
+export function serializeTokenInfo(token: TokenInfo): SerializedTokenInfo {
+  return {
+    ...token,
+    mintDate: token.mintDate?.toISOString(),
+  };
+}
+
+export function deserializeTokenInfo(token: SerializedTokenInfo): TokenInfo {
+  return {
+    ...token,
+    mintDate: token.mintDate ? new Date(token.mintDate) : undefined,
+  };
+}
+
+export interface SearchResponse {
+  query: string;
+  tokens: SerializedTokenInfo[];
+  hasMore: boolean;
+  // Pass back to fetchSearchResults to load the next page
+  cursor: string | null;
+  scanned: SearchResult['scanned'];
+  usage: SearchResult['usage'];
+}
+
+export interface SearchProgress {
+  scanned: SearchResult['scanned'];
+}
+
+// Events sent by /api/search/stream
+export type SearchStreamEvent =
+  | { event: 'token'; data: SerializedTokenInfo }
+  | { event: 'progress'; data: SearchProgress }
+  | { event: 'done'; data: SearchResponse }
+  | { event: 'error'; data: ApiErrorResponse };
+
+export interface SearchStreamHandlers {
+  onToken?: (token: SerializedTokenInfo) => void;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+export interface TokenResponse {
+  token: SerializedTokenInfo;
+}
+
+export interface MarketResponse {
+  market: TokenMarket;
+}
+
+export interface ActivityResponse extends TokenActivityPage {
+  mint: string;
+}
+
+export interface CreatorResponse {
+  creator: string;
+  tokens: SerializedTokenInfo[];
+}
+
+export interface ApiErrorResponse {
+  error: string;
+}
+
+// Error raised on the client when an API route returns a non-2xx status
+export class ApiRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+async function readApiError(response: Response): Promise<ApiRequestError> {
+  const body = await response.json().catch(() => null);
+  const message = (body as ApiErrorResponse | null)?.error || response.statusText;
+  return new ApiRequestError(message, response.status);
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+// Parse one server-sent event block ("event: ...\ndata: ...")
+function parseStreamEvent(block: string): SearchStreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  if (data.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(data.join('\n')) } as SearchStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+// Search parameters besides the query, named as in the API's query string
+export interface SearchRequestOptions {
+  cursor?: string | null;
+  minScore?: number;
+  filters?: SearchFilters;
+  sort?: SearchSort;
+}
+
+function buildSearchParams(query: string, options: SearchRequestOptions): URLSearchParams {
+  const params = new URLSearchParams({ q: query });
+  if (options.cursor) params.set('cursor', options.cursor);
+  if (options.minScore !== undefined) params.set('minScore', String(options.minScore));
+  writeSearchFilters(params, options.filters ?? {}, options.sort);
+  return params;
+}
+
+export function fetchSearchResults(
+  query: string,
+  options: SearchRequestOptions = {},
+  init?: RequestInit
+): Promise<SearchResponse> {
+  return fetchJson<SearchResponse>(`/api/search?${buildSearchParams(query, options)}`, init);
+}
+
+// Run a search through /api/search/stream, reporting tokens and progress as
+// they arrive. Resolves with the ranked page; abort init.signal to cancel.
+export async function streamSearchResults(
+  query: string,
+  options: SearchRequestOptions,
+  handlers: SearchStreamHandlers,
+  init?: RequestInit
+): Promise<SearchResponse> {
+  const response = await fetch(`/api/search/stream?${buildSearchParams(query, options)}`, init);
+  if (!response.ok || !response.body) {
+    throw await readApiError(response);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const event = parseStreamEvent(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+
+      switch (event?.event) {
+        case 'token':
+          handlers.onToken?.(event.data);
+          break;
+        case 'progress':
+          handlers.onProgress?.(event.data);
+          break;
+        case 'done':
+          await reader.cancel();
+          return event.data;
+        case 'error':
+          await reader.cancel();
+          throw new ApiRequestError(event.data.error, 502);
+      }
+    }
+  }
+
+  throw new ApiRequestError('Search stream ended unexpectedly', 502);
+}
+
+export function fetchTokenDetails(address: string, init?: RequestInit): Promise<TokenResponse> {
+  return fetchJson<TokenResponse>(`/api/token/${encodeURIComponent(address)}`, init);
+}
+
+export function fetchTokenMarket(address: string, init?: RequestInit): Promise<MarketResponse> {
+  return fetchJson<MarketResponse>(`/api/token/${encodeURIComponent(address)}/market`, init);
+}
+
+export function fetchTokenActivity(
+  address: string,
+  before?: string | null,
+  init?: RequestInit
+): Promise<ActivityResponse> {
+  const params = before ? `?${new URLSearchParams({ before })}` : '';
+  return fetchJson<ActivityResponse>(`/api/token/${encodeURIComponent(address)}/activity${params}`, init);
+}
+
+export function fetchCreatorTokens(wallet: string, init?: RequestInit): Promise<CreatorResponse> {
+  return fetchJson<CreatorResponse>(`/api/creator/${encodeURIComponent(wallet)}`, init);
+}
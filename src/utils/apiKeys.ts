@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logError } from './logger';
+
+// Per-client keys for the public /api/v1 routes, read from a local JSON file
+// that is kept out of version control:
+//   { "keys": [{ "id": "alerts-bot", "key": "<secret>", "requestsPerMinute": 120 }] }
+// The id names the client in usage counters and logs; the key is the secret
+// it sends as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+const API_KEYS_PATH = process.env.API_KEYS_PATH || path.join(process.cwd(), 'config', 'api-keys.json');
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+// Short keys and the placeholders from config/api-keys.example.json are
+// rejected, so copying the example file as is cannot put public keys live
+const MIN_KEY_LENGTH = 16;
+const PLACEHOLDER_KEY_PREFIX = 'replace-with';
+
+export interface ApiClient {
+  id: string;
+  requestsPerMinute: number;
+}
+
+interface ApiKeyEntry {
+  id: string;
+  key: string;
+  requestsPerMinute?: number;
+}
+
+// Clients by the SHA-256 of their key, so lookups never compare raw secrets
+let cachedKeys: { clients: Map<string, ApiClient>; loadedAt: number } | null = null;
+
+// Reload the file at most this often so new keys work without a restart
+const RELOAD_INTERVAL_MS = 60 * 1000;
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function isApiKeyEntry(value: unknown): value is ApiKeyEntry {
+  const entry = value as ApiKeyEntry;
+  return (
+    typeof entry?.id === 'string' && entry.id.length > 0 &&
+    typeof entry.key === 'string' && entry.key.length >= MIN_KEY_LENGTH &&
+    !entry.key.toLowerCase().startsWith(PLACEHOLDER_KEY_PREFIX) &&
+    (entry.requestsPerMinute === undefined ||
+      (Number.isInteger(entry.requestsPerMinute) && entry.requestsPerMinute > 0))
+  );
+}
+
+function loadApiClients(): Map<string, ApiClient> {
+  if (cachedKeys && Date.now() - cachedKeys.loadedAt < RELOAD_INTERVAL_MS) {
+    return cachedKeys.clients;
+  }
+
+  const clients = new Map<string, ApiClient>();
+  try {
+    const file = JSON.parse(fs.readFileSync(API_KEYS_PATH, 'utf8')) as { keys?: unknown };
+    const entries = Array.isArray(file.keys) ? file.keys : [];
+    for (const entry of entries) {
+      if (!isApiKeyEntry(entry)) {
+        logError(`Ignoring invalid entry in ${API_KEYS_PATH}: keys need an id and a key of at least ${MIN_KEY_LENGTH} characters that is not a placeholder`);
+        continue;
+      }
+      clients.set(hashKey(entry.key), {
+        id: entry.id,
+        requestsPerMinute: entry.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE,
+      });
+    }
+  } catch (error) {
+    // Without a keys file no client can authenticate
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logError('Error loading API keys:', error);
+    }
+  }
+
+  cachedKeys = { clients, loadedAt: Date.now() };
+  return clients;
+}
+
+export function isApiKeysConfigured(): boolean {
+  return loadApiClients().size > 0;
+}
+
+// The key from `Authorization: Bearer <key>` or `X-API-Key`
+export function readApiKey(headers: Headers): string | null {
+  const authorization = headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer?.trim() || headers.get('x-api-key')?.trim() || null;
+}
+
+export function authenticateApiKey(key: string | null): ApiClient | null {
+  return key ? loadApiClients().get(hashKey(key)) ?? null : null;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  // Requests left right now
+  remaining: number;
+  // Seconds until the next request is allowed, when it is not
+  retryAfter: number;
+}
+
+// Token bucket per client: a full minute's allowance may be spent at once,
+// then it refills evenly
+const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+export function takeRateLimitToken(client: ApiClient, now = Date.now()): RateLimitResult {
+  const capacity = client.requestsPerMinute;
+  const refillPerMs = capacity / 60_000;
+  const bucket = buckets.get(client.id) ?? { tokens: capacity, updatedAt: now };
+  bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+  bucket.updatedAt = now;
+  buckets.set(client.id, bucket);
+
+  if (bucket.tokens < 1) {
+    return {
+      allowed: false,
+      limit: capacity,
+      remaining: 0,
+      retryAfter: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000),
+    };
+  }
+
+  bucket.tokens -= 1;
+  return { allowed: true, limit: capacity, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+}
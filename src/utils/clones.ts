@@ -0,0 +1,23 @@
+import type { TokenVerification } from './verifiedTokens';
+
+type GroupableToken = { address: string; verification?: TokenVerification };
+
+// Nest possible impersonators under the verified token they imitate when that
+// token is in the same result set. Impersonators of tokens that are not in the
+// results stay in the list on their own.
+export function groupClones<T extends GroupableToken>(tokens: T[]): { tokens: T[]; clonesOf: Map<string, T[]> } {
+  const present = new Set(tokens.map(token => token.address));
+  const clonesOf = new Map<string, T[]>();
+  const grouped: T[] = [];
+
+  for (const token of tokens) {
+    const canonical = token.verification?.status === 'impersonator' ? token.verification.canonical : undefined;
+    if (canonical && present.has(canonical.address)) {
+      clonesOf.set(canonical.address, [...(clonesOf.get(canonical.address) ?? []), token]);
+    } else {
+      grouped.push(token);
+    }
+  }
+
+  return { tokens: grouped, clonesOf };
+}
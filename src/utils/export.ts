@@ -0,0 +1,222 @@
+import type { SerializedTokenInfo } from './api';
+
+// CSV and JSON export of tokens. The CSV columns below are a stable schema:
+// new columns are only ever appended, and existing ones keep their name and
+// meaning. Bump EXPORT_SCHEMA_VERSION when that promise has to be broken.
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+type CellValue = string | number | boolean | null | undefined;
+
+export interface ExportColumn {
+  name: string;
+  description: string;
+  value: (token: SerializedTokenInfo) => CellValue;
+}
+
+// Lists inside a single cell
+const LIST_SEPARATOR = ';';
+
+function list(values: string[] | undefined): string | undefined {
+  return values && values.length > 0 ? values.join(LIST_SEPARATOR) : undefined;
+}
+
+export const TOKEN_EXPORT_COLUMNS: ExportColumn[] = [
+  { name: 'address', description: 'Mint address', value: token => token.address },
+  { name: 'name', description: 'Token name', value: token => token.name },
+  { name: 'symbol', description: 'Ticker symbol', value: token => token.symbol },
+  { name: 'source', description: 'Where the token data came from: helius-das or on-chain', value: token => token.source },
+  { name: 'mint_date', description: 'Mint time, ISO 8601 UTC', value: token => token.mintDate },
+  { name: 'is_new_token', description: 'Minted in the last 24 hours', value: token => token.isNewToken },
+  { name: 'supply', description: 'Raw supply in base units', value: token => token.supply },
+  { name: 'decimals', description: 'Mint decimals', value: token => token.decimals },
+  { name: 'mint_authority', description: 'Mint authority, empty if revoked', value: token => token.mintAuthority },
+  { name: 'freeze_authority', description: 'Freeze authority, empty if revoked', value: token => token.freezeAuthority },
+  { name: 'program_id', description: 'Token program that owns the mint', value: token => token.programId },
+  { name: 'extensions', description: 'Token-2022 extension types, ;-separated', value: token => list(token.extensions?.types) },
+  {
+    name: 'transfer_fee_bps',
+    description: 'Token-2022 transfer fee in basis points',
+    value: token => token.extensions?.transferFee?.basisPoints,
+  },
+  {
+    name: 'permanent_delegate',
+    description: 'Token-2022 permanent delegate',
+    value: token => token.extensions?.permanentDelegate,
+  },
+  {
+    name: 'non_transferable',
+    description: 'Token-2022 non-transferable flag',
+    value: token => token.extensions?.nonTransferable,
+  },
+  {
+    name: 'default_account_state',
+    description: 'Token-2022 default state of new token accounts',
+    value: token => token.extensions?.defaultAccountState,
+  },
+  {
+    name: 'transfer_hook_program',
+    description: 'Token-2022 transfer hook program',
+    value: token => token.extensions?.transferHook?.programId,
+  },
+  { name: 'metadata_uri', description: 'Off-chain metadata URI', value: token => token.metadata?.uri },
+  {
+    name: 'metadata_update_authority',
+    description: 'Metadata update authority',
+    value: token => token.metadata?.updateAuthority,
+  },
+  { name: 'metadata_is_mutable', description: 'Whether metadata can still change', value: token => token.metadata?.isMutable },
+  { name: 'token_standard', description: 'Metaplex token standard', value: token => token.metadata?.tokenStandard },
+  { name: 'image', description: 'Logo URL', value: token => token.image },
+  { name: 'description', description: 'Off-chain description', value: token => token.description },
+  { name: 'website', description: 'Website link', value: token => token.links?.website },
+  { name: 'twitter', description: 'X / Twitter link', value: token => token.links?.twitter },
+  { name: 'telegram', description: 'Telegram link', value: token => token.links?.telegram },
+  {
+    name: 'creator',
+    description: 'Deployer wallet (fee payer of the initialize-mint transaction)',
+    value: token => token.creator?.deployer,
+  },
+  {
+    name: 'creator_initial_mint_authority',
+    description: 'Mint authority set at initialization',
+    value: token => token.creator?.initialMintAuthority,
+  },
+  { name: 'creator_signature', description: 'Initialize-mint transaction signature', value: token => token.creator?.signature },
+  { name: 'holders', description: 'Holder count', value: token => token.holders },
+  {
+    name: 'holders_complete',
+    description: 'False when holders is a lower bound',
+    value: token => token.holderCountIsComplete,
+  },
+  {
+    name: 'top1_pct',
+    description: 'Percent of supply held by the largest holder',
+    value: token => token.holderAnalytics?.concentration.top1,
+  },
+  {
+    name: 'top10_pct',
+    description: 'Percent of supply held by the 10 largest holders',
+    value: token => token.holderAnalytics?.concentration.top10,
+  },
+  {
+    name: 'top20_pct',
+    description: 'Percent of supply held by the 20 largest holders',
+    value: token => token.holderAnalytics?.concentration.top20,
+  },
+  { name: 'risk_score', description: 'Rug-risk score, 100 is safest', value: token => token.risk?.score },
+  { name: 'risk_level', description: 'low, medium or high', value: token => token.risk?.level },
+  {
+    name: 'risk_flags',
+    description: 'Ids of failed and warning risk checks, ;-separated',
+    value: token => list(token.risk?.checks.filter(check => check.status !== 'pass').map(check => check.id)),
+  },
+  {
+    name: 'verification',
+    description: 'verified, impersonator or unverified',
+    value: token => token.verification?.status,
+  },
+  {
+    name: 'imitates',
+    description: 'Address of the verified token this one is or imitates',
+    value: token => token.verification?.canonical?.address,
+  },
+  { name: 'match_score', description: 'Search relevance, 0-100', value: token => token.match?.score },
+  { name: 'match_reason', description: 'Why the token matched the search', value: token => token.match?.reason },
+  { name: 'price_usd', description: 'USD price from the deepest AMM pool', value: token => token.market?.priceUsd },
+  { name: 'price_sol', description: 'Price in SOL', value: token => token.market?.priceSol },
+  {
+    name: 'liquidity_usd',
+    description: 'USD liquidity summed over AMM pools',
+    value: token => token.market?.liquidityUsd,
+  },
+  { name: 'pool_count', description: 'AMM pools found for the token', value: token => token.market?.pools.length },
+  {
+    name: 'lp_burned_pct',
+    description: 'Percent of LP tokens burned in the deepest pool with an LP token',
+    value: token => token.market?.pools.find(pool => pool.lp)?.lp?.burnedPct,
+  },
+  { name: 'creator_slot', description: 'Slot of the initialize-mint transaction', value: token => token.creator?.slot },
+];
+
+// Spreadsheets run cells that start with these as formulas. Token names are
+// chosen by whoever deployed the token, so they are prefixed to stay text.
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+function formatCell(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string') return String(value);
+
+  const text = FORMULA_PREFIXES.some(prefix => value.startsWith(prefix)) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvHeader(columns = TOKEN_EXPORT_COLUMNS): string {
+  return columns.map(column => column.name).join(',') + '\r\n';
+}
+
+// One CSV line, for writers that stream rows after the header
+export function tokenToCsvRow(token: SerializedTokenInfo, columns = TOKEN_EXPORT_COLUMNS): string {
+  return columns.map(column => formatCell(column.value(token))).join(',') + '\r\n';
+}
+
+// RFC 4180 CSV with a header row and CRLF line endings
+export function tokensToCsv(tokens: SerializedTokenInfo[], columns = TOKEN_EXPORT_COLUMNS): string {
+  return csvHeader(columns) + tokens.map(token => tokenToCsvRow(token, columns)).join('');
+}
+
+export interface TokenExportDocument {
+  schemaVersion: number;
+  exportedAt: string;
+  // Search query the tokens came from, for search exports
+  query?: string;
+  tokens: SerializedTokenInfo[];
+}
+
+// JSON keeps every field, including the nested ones the CSV summarizes
+export function tokensToJson(tokens: SerializedTokenInfo[], query?: string, now = new Date()): string {
+  const document: TokenExportDocument = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    query,
+    tokens,
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+export function formatTokenExport(tokens: SerializedTokenInfo[], format: ExportFormat, query?: string): string {
+  return format === 'csv' ? tokensToCsv(tokens) : tokensToJson(tokens, query);
+}
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// e.g. sol-track-bonk-2024-05-01.csv
+export function exportFileName(label: string, format: ExportFormat, now = new Date()): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'tokens';
+  return `sol-track-${slug}-${now.toISOString().slice(0, 10)}.${format}`;
+}
+
+// Download response for an API route
+export function createExportResponse(
+  tokens: SerializedTokenInfo[],
+  format: ExportFormat,
+  label: string,
+  query?: string
+): Response {
+  return new Response(formatTokenExport(tokens, format, query), {
+    headers: {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${exportFileName(label, format)}"`,
+    },
+  });
+}
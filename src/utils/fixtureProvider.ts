@@ -0,0 +1,149 @@
+import fs from 'fs';
+import { PublicKey } from '@solana/web3.js';
+import type {
+  ConfirmedSignatureInfo,
+  GetProgramAccountsFilter,
+  ParsedTransactionWithMeta,
+  TokenAccountBalancePair,
+  TokenAmount,
+} from '@solana/web3.js';
+import type { OffChainMetadata } from './offchainMetadata';
+import type {
+  DasAsset,
+  DasTokenAccount,
+  LogsNotification,
+  ParsedAccount,
+  TokenDataProvider,
+} from './tokenDataProvider';
+
+// Chain data served by the fixture provider, keyed by address or signature
+export interface TokenDataFixture {
+  accounts?: Record<string, ParsedAccount>;
+  // Newest first, per address
+  signatures?: Record<string, ConfirmedSignatureInfo[]>;
+  transactions?: Record<string, ParsedTransactionWithMeta>;
+  tokenSupply?: Record<string, TokenAmount>;
+  largestAccounts?: Record<string, TokenAccountBalancePair[]>;
+  assets?: DasAsset[];
+  tokenAccounts?: Record<string, DasTokenAccount[]>;
+  // Off-chain metadata documents, per URL
+  metadata?: Record<string, OffChainMetadata>;
+  // Replayed to onLogs subscribers, per program
+  logs?: Record<string, LogsNotification[]>;
+}
+
+function paginate<T>(items: T[], page: number, limit: number): T[] {
+  return items.slice((page - 1) * limit, page * limit);
+}
+
+// base58 memcmp bytes are read as a 32-byte address, which is all the app
+// filters on
+function matchesFilter(data: Buffer, filter: GetProgramAccountsFilter): boolean {
+  if ('dataSize' in filter) return data.length === filter.dataSize;
+
+  const { offset, bytes } = filter.memcmp;
+  const expected = filter.memcmp.encoding === 'base64' ? Buffer.from(bytes, 'base64') : new PublicKey(bytes).toBuffer();
+  return data.subarray(offset, offset + expected.length).equals(expected);
+}
+
+// In-memory provider for tests and offline development. Anything missing
+// from the fixture behaves like an account or transaction that does not exist.
+export function createFixtureProvider(fixture: TokenDataFixture): TokenDataProvider {
+  return {
+    name: 'fixture',
+
+    getAccountInfo: async address => {
+      const account = fixture.accounts?.[address];
+      return account && Buffer.isBuffer(account.data) ? { ...account, data: account.data } : null;
+    },
+
+    getParsedAccountInfo: async address => fixture.accounts?.[address] ?? null,
+
+    getMultipleParsedAccounts: async addresses => addresses.map(address => fixture.accounts?.[address] ?? null),
+
+    getSignaturesForAddress: async (address, options = {}) => {
+      const signatures = fixture.signatures?.[address] ?? [];
+      const beforeIndex = options.before ? signatures.findIndex(sig => sig.signature === options.before) : -1;
+      if (options.before && beforeIndex === -1) return [];
+
+      const page: ConfirmedSignatureInfo[] = [];
+      for (const sig of signatures.slice(beforeIndex + 1)) {
+        if (sig.signature === options.until || page.length >= (options.limit ?? 1000)) break;
+        page.push(sig);
+      }
+      return page;
+    },
+
+    getParsedTransaction: async signature => fixture.transactions?.[signature] ?? null,
+
+    getTokenSupply: async mint => {
+      const supply = fixture.tokenSupply?.[mint];
+      if (!supply) throw new Error(`Invalid param: not a Token mint (${mint})`);
+      return supply;
+    },
+
+    getTokenLargestAccounts: async mint => fixture.largestAccounts?.[mint] ?? [],
+
+    getProgramAccounts: async (programId, filters) =>
+      Object.entries(fixture.accounts ?? {})
+        .filter(([, account]) =>
+          account.owner.toBase58() === programId &&
+          Buffer.isBuffer(account.data) &&
+          filters.every(filter => matchesFilter(account.data as Buffer, filter))
+        )
+        .map(([pubkey, account]) => ({ pubkey, account: { ...account, data: account.data as Buffer } })),
+
+    fetchOffChainMetadata: async url => fixture.metadata?.[url] ?? null,
+
+    getAssetsBySymbol: async (symbol, page, limit) => {
+      const matches = (fixture.assets ?? [])
+        .filter(asset => asset.content?.metadata?.symbol?.toUpperCase() === symbol.toUpperCase());
+      return { items: paginate(matches, page, limit), total: matches.length, limit, page };
+    },
+
+    getTokenAccounts: async (mint, page, limit) => {
+      const accounts = fixture.tokenAccounts?.[mint] ?? [];
+      return { token_accounts: paginate(accounts, page, limit), total: accounts.length, limit, page };
+    },
+
+    onLogs(programId, callback) {
+      const timer = setTimeout(() => {
+        for (const notification of fixture.logs?.[programId] ?? []) callback(notification);
+      }, 0);
+      return () => clearTimeout(timer);
+    },
+  };
+}
+
+// JSON cannot hold PublicKeys and Buffers: account owners, token account
+// addresses and transaction account keys are stored as base58 strings, and raw
+// account data as [base64, 'base64'] like the RPC returns it
+export function reviveTokenDataFixture(json: unknown): TokenDataFixture {
+  const fixture = json as TokenDataFixture;
+
+  for (const account of Object.values(fixture.accounts ?? {})) {
+    const raw = account as unknown as { owner: string; data: unknown };
+    account.owner = new PublicKey(raw.owner);
+    if (Array.isArray(raw.data) && raw.data[1] === 'base64') {
+      account.data = Buffer.from(String(raw.data[0]), 'base64');
+    }
+  }
+
+  for (const tx of Object.values(fixture.transactions ?? {})) {
+    for (const key of tx.transaction.message.accountKeys) {
+      key.pubkey = new PublicKey(key.pubkey as unknown as string);
+    }
+  }
+
+  for (const accounts of Object.values(fixture.largestAccounts ?? {})) {
+    for (const account of accounts) {
+      account.address = new PublicKey(account.address as unknown as string);
+    }
+  }
+
+  return fixture;
+}
+
+export function loadTokenDataFixture(path: string): TokenDataFixture {
+  return reviveTokenDataFixture(JSON.parse(fs.readFileSync(path, 'utf8')));
+}
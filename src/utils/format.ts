@@ -0,0 +1,67 @@
+import type { LiquidityPool, LpStatus } from './market';
+
+// Convert a raw integer token amount into a human-readable decimal string
+export function formatTokenAmount(raw: string, decimals: number): string {
+  let value: bigint;
+  try {
+    value = BigInt(raw);
+  } catch {
+    return raw;
+  }
+
+  const negative = value < BigInt(0);
+  if (negative) value = -value;
+
+  const base = BigInt(10) ** BigInt(decimals);
+  const whole = (value / base).toLocaleString('en-US');
+  const fraction = decimals > 0
+    ? (value % base).toString().padStart(decimals, '0').replace(/0+$/, '')
+    : '';
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+// Shorten a base58 address for compact display
+export function shortenAddress(address: string, chars = 4): string {
+  if (address.length <= chars * 2 + 3) return address;
+  return `${address.slice(0, chars)}...${address.slice(-chars)}`;
+}
+
+export function formatDateTime(date: Date | string): string {
+  const value = new Date(date);
+  return `${value.toLocaleDateString()} at ${value.toLocaleTimeString()}`;
+}
+
+export function formatHolderCount(count: number, complete = true): string {
+  return `${count.toLocaleString('en-US')}${complete ? '' : '+'} holder${count === 1 && complete ? '' : 's'}`;
+}
+
+export function formatPercentage(value: number): string {
+  return `${value.toFixed(2)}%`;
+}
+
+// Dollar amounts, compact above a million: $1.2M
+export function formatUsd(value: number): string {
+  return value >= 1_000_000
+    ? `$${new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value)}`
+    : `$${value.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+// Token prices keep four significant digits however small they are
+export function formatPrice(value: number, unit = ''): string {
+  const digits = value >= 1 ? value.toLocaleString('en-US', { maximumFractionDigits: 4 }) : value.toPrecision(4);
+  return unit === '$' ? `$${digits}` : `${digits}${unit ? ` ${unit}` : ''}`;
+}
+
+export function formatPoolPrice(pool: LiquidityPool): string {
+  return pool.priceUsd !== undefined
+    ? formatPrice(pool.priceUsd, '$')
+    : formatPrice(pool.price, pool.quoteSymbol ?? 'quote');
+}
+
+export function formatLpStatus(lp?: LpStatus): string | null {
+  if (!lp) return null;
+  if (lp.burnedPct >= 99) return 'LP burned';
+  if (lp.burnedPct + lp.lockedPct >= 99) return `LP ${formatPercentage(lp.burnedPct)} burned, rest locked`;
+  return `LP ${formatPercentage(lp.burnedPct)} burned, ${formatPercentage(lp.lockedPct)} locked`;
+}
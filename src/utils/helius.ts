@@ -1,8 +1,53 @@
-import { Connection, PublicKey } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  AccountInfo,
+  ConfirmedSignatureInfo,
+  ParsedTransactionWithMeta,
+  PublicKey,
+} from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { decodeMetadata, findMetadataAddress, MetaplexMetadata } from './metaplex';
+import {
+  OnMintMetadata,
+  ParsedMintExtension,
+  parseMintExtensions,
+  parseOnMintMetadata,
+  TokenExtensions,
+} from './token2022';
+import { resolveOffChainMetadata, rewriteMetadataUri, TokenLinks } from './offchainMetadata';
+import {
+  computeConcentration,
+  getExclusionReason,
+  HolderAnalytics,
+  percentageOfSupply,
+  TokenHolder,
+} from './holders';
+import { assessTokenRisk, RiskReport } from './risk';
+import { getTokenMarket, TokenMarket } from './market';
+import { classifyTokenActivity, TokenActivityEvent } from './activity';
+import { DEFAULT_MIN_SCORE, scoreTokenMatch, SearchMatch } from './searchScore';
+import { TokenVerification, verifyToken } from './verifiedTokens';
+import {
+  CrawledRange,
+  getCheckpoint,
+  getCrawledRanges,
+  getMintGenesis,
+  saveMintGenesis,
+  searchIndex,
+  upsertToken,
+} from './tokenIndex';
+import { DasAsset, getTokenDataProvider, ParsedAccount, TokenDataProvider } from './tokenDataProvider';
+import { RequestUsage, trackRequestUsage } from './requestScheduler';
+import { matchesSearchFilters, SearchFilters, SearchSort, sortTokens, withoutDateFilters } from './searchFilters';
+import { logError } from './logger';
 
-// Metadata program ID
-const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+// Token programs whose mints we scan and resolve
+export const TOKEN_PROGRAM_IDS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+// Token metadata: name and symbol are always present, on-chain Metaplex fields
+// are filled in when the metadata account was decoded
+export type TokenMetadata = Pick<MetaplexMetadata, 'name' | 'symbol'> &
+  Partial<Omit<MetaplexMetadata, 'name' | 'symbol'>> &
+  Partial<Pick<OnMintMetadata, 'additionalMetadata'>>;
 
 // Base interface for token data
 interface BaseToken {
@@ -12,30 +57,46 @@ interface BaseToken {
   mintDate?: Date;
   isNewToken?: boolean;
   supply?: string;
+  decimals?: number;
+  mintAuthority?: string | null;
+  freezeAuthority?: string | null;
+  programId?: string;
+  extensions?: TokenExtensions;
+  image?: string;
+  description?: string;
+  links?: TokenLinks;
+  creator?: TokenCreator;
   holders?: number;
-  metadata?: {
-    name: string;
-    symbol: string;
-    uri?: string;
-  };
+  // False when `holders` is a lower bound because counting was capped
+  holderCountIsComplete?: boolean;
+  holderAnalytics?: HolderAnalytics;
+  risk?: RiskReport;
+  // Whether this is a verified token or imitates one
+  verification?: TokenVerification;
+  metadata?: TokenMetadata;
+  // Price, liquidity and pools from on-chain AMMs
+  market?: TokenMarket;
+}
+
+// Who deployed a mint and when, taken from its initialize-mint transaction
+export interface TokenCreator {
+  // Fee payer of the initialize-mint transaction
+  deployer: string;
+  initialMintAuthority: string | null;
+  signature: string;
+  slot: number;
+  // Unix seconds; null when the RPC has no block time for the slot
+  blockTime: number | null;
 }
 
 // Main token info interface used throughout the app
 export interface TokenInfo extends BaseToken {
   source: string;
   isNewToken: boolean;
+  // How well the token matched the search query, on search results
+  match?: SearchMatch;
 }
 
-// Use Helius RPC endpoint for better performance
-const HELIUS_API_KEY = process.env.NEXT_PUBLIC_HELIUS_API_KEY;
-if (!HELIUS_API_KEY) {
-  throw new Error('NEXT_PUBLIC_HELIUS_API_KEY is not set in environment variables');
-}
-
-const connection = new Connection(`https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`, {
-  commitment: 'confirmed',
-});
-
 // Cache for recent transactions to avoid re-fetching
 interface CachedTransaction {
   meta?: {
@@ -43,15 +104,12 @@ interface CachedTransaction {
       mint: string;
     }>;
   };
-  blockTime?: number | null;
 }
 
 const transactionCache = new Map<string, CachedTransaction>();
 
-// Helper function to add delay between requests
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Optimized retry function with better backoff strategy
+// Retry transient failures with exponential backoff. Rate limiting is handled
+// below this, by the request scheduler the provider's fetch goes through.
 async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   retries = 3,
@@ -66,21 +124,17 @@ async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
-      if (i === retries) {
+      // A cancelled search should stop, not retry
+      if (i === retries || lastError.name === 'AbortError') {
         throw lastError;
       }
 
       // Calculate delay with exponential backoff and jitter
-      const exponentialDelay = Math.min(
+      const delay = Math.min(
         baseDelay * Math.pow(2, i) + Math.random() * 1000,
         maxDelay
       );
       
-      // Longer delays for rate limit errors
-      const delay = lastError.message.toLowerCase().includes('rate limit') 
-        ? exponentialDelay * 2 
-        : exponentialDelay;
-      
       await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
@@ -88,56 +142,61 @@ async function retryWithBackoff<T>(
   throw lastError;
 }
 
-// Enhanced token matching to find more relevant tokens
-function matchesTokenQuery(query: string, name: string, symbol: string, address: string): boolean {
-  query = query.toLowerCase().trim();
-  name = name.toLowerCase().trim();
-  symbol = symbol.toLowerCase().trim();
-  address = address.toLowerCase().trim();
+// Fetch a transaction's token balances, using the in-memory cache
+async function getCachedTransaction(
+  provider: TokenDataProvider,
+  signature: string
+): Promise<CachedTransaction | null> {
+  // Per provider, like the geneses it records
+  const key = `${provider.name}:${signature}`;
+  let tx = transactionCache.get(key);
+  if (tx) return tx;
 
-  // Direct matches should be prioritized
-  if (symbol === query || name === query || address === query) {
-    return true;
-  }
+  const parsedTx = await retryWithBackoff(() => provider.getParsedTransaction(signature), 2);
+  if (!parsedTx) return null;
 
-  // For short queries (likely tickers), be more strict
-  if (query.length <= 5) {
-    return symbol.includes(query) || 
-           query.includes(symbol) || 
-           name.startsWith(query);
+  // Scans read a lot of initialize-mint transactions; date those mints for free
+  for (const { mint, creator } of findMintInitializations(parsedTx)) {
+    rememberGenesis(provider, mint, creator);
   }
 
-  // For longer queries, check if any word matches exactly
-  const queryWords = query.split(/[\s_-]+/);
-  const nameWords = name.split(/[\s_-]+/);
-  const symbolWords = symbol.split(/[\s_-]+/);
-
-  // Check for exact word matches
-  for (const word of queryWords) {
-    if (word.length < 2) continue;
-    
-    if (symbolWords.includes(word) || nameWords.includes(word)) {
-      return true;
+  tx = {
+    meta: {
+      postTokenBalances: parsedTx.meta?.postTokenBalances?.map(balance => ({
+        mint: balance.mint
+      }))
+    }
+  };
+  transactionCache.set(key, tx);
+  
+  if (transactionCache.size > 1000) {
+    const firstKey = Array.from(transactionCache.keys())[0];
+    if (firstKey) {
+      transactionCache.delete(firstKey);
     }
   }
+  return tx;
+}
 
-  // Only check for partial matches if no exact matches found
-  return symbol.includes(query) || 
-         name.includes(query) || 
-         (query.length > 10 && address.includes(query)); // Only match address for long queries
-}
-
-// Helper function to get metadata address
-function findMetadataAddress(mint: PublicKey): PublicKey {
-  const [publicKey] = PublicKey.findProgramAddressSync(
-    [
-      Buffer.from('metadata'),
-      METADATA_PROGRAM_ID.toBuffer(),
-      mint.toBuffer(),
-    ],
-    METADATA_PROGRAM_ID
-  );
-  return publicKey;
+// Mints whose balances a transaction touched
+export async function getTransactionMints(
+  signature: string,
+  provider = getTokenDataProvider()
+): Promise<{ mints: string[] }> {
+  const tx = await getCachedTransaction(provider, signature);
+  const mints = tx?.meta?.postTokenBalances
+    ?.map(balance => balance.mint)
+    .filter((mint): mint is string => typeof mint === 'string') || [];
+  return { mints: Array.from(new Set(mints)) };
+}
+
+// One page of a token program's signatures, newest first
+export function getProgramSignatures(
+  programId: string,
+  options: { before?: string; until?: string; limit: number },
+  provider = getTokenDataProvider()
+): Promise<ConfirmedSignatureInfo[]> {
+  return retryWithBackoff(() => provider.getSignaturesForAddress(programId, options), 2);
 }
 
 // Helper function to sanitize text
@@ -151,399 +210,1149 @@ function sanitizeTokenText(text: string): string {
   return cleaned.length < 2 ? 'Unknown' : cleaned;
 }
 
-// Optimized token info fetching with metadata
-async function getTokenInfoFromMint(
+// Fields we read from a jsonParsed SPL mint account
+interface ParsedMint {
+  name?: string;
+  symbol?: string;
+  supply: string;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  programId: string;
+  extensions?: TokenExtensions;
+  onMintMetadata: OnMintMetadata | null;
+}
+
+function parseMintAccount(account: ParsedAccount | null): ParsedMint | null {
+  if (!account?.data || typeof account.data !== 'object') return null;
+
+  const data = account.data;
+  if (!('parsed' in data) || data.parsed.type !== 'mint') return null;
+
+  const info = data.parsed.info;
+  const extensions: ParsedMintExtension[] = Array.isArray(info.extensions) ? info.extensions : [];
+  return {
+    name: info.name,
+    symbol: info.symbol,
+    supply: info.supply || '0',
+    decimals: info.decimals,
+    mintAuthority: info.mintAuthority ?? null,
+    freezeAuthority: info.freezeAuthority ?? null,
+    programId: account.owner.toBase58(),
+    extensions: extensions.length > 0 ? parseMintExtensions(extensions) : undefined,
+    onMintMetadata: parseOnMintMetadata(extensions)
+  };
+}
+
+// Prefer metadata stored on a Token-2022 mint, then the Metaplex metadata account
+function resolveMetadata(
+  tokenData: ParsedMint,
+  metadataAccount: AccountInfo<Buffer> | null
+): TokenMetadata | undefined {
+  if (tokenData.onMintMetadata?.name || tokenData.onMintMetadata?.symbol) {
+    return tokenData.onMintMetadata;
+  }
+  return (metadataAccount?.data && decodeMetadata(metadataAccount.data)) || undefined;
+}
+
+// A mint account and its Metaplex metadata account
+interface MintAccounts {
+  mint: ParsedAccount | null;
+  metadata: AccountInfo<Buffer> | null;
+}
+
+// getMultipleAccounts accepts at most 100 keys per call
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+// Fetch the mint and metadata accounts of many mints with getMultipleAccounts,
+// two keys per mint, instead of two calls per mint
+async function getMintAccounts(provider: TokenDataProvider, mintAddresses: string[]): Promise<MintAccounts[]> {
+  const keys = mintAddresses.flatMap(mint => [mint, findMetadataAddress(new PublicKey(mint)).toBase58()]);
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < keys.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    chunks.push(keys.slice(i, i + MAX_ACCOUNTS_PER_REQUEST));
+  }
+  const accounts = (await Promise.all(
+    chunks.map(chunk => retryWithBackoff(() => provider.getMultipleParsedAccounts(chunk), 2))
+  )).flat();
+
+  return mintAddresses.map((_, index) => {
+    // The RPC cannot parse metadata accounts, so they arrive as raw bytes
+    const metadata = accounts[index * 2 + 1];
+    return {
+      mint: accounts[index * 2] ?? null,
+      metadata: metadata && Buffer.isBuffer(metadata.data) ? { ...metadata, data: metadata.data } : null
+    };
+  });
+}
+
+function buildTokenInfo(
+  provider: TokenDataProvider,
   mintAddress: string,
-  blockTime?: number | null
+  accounts: MintAccounts,
+  requireName: boolean
+): TokenInfo | null {
+  const tokenData = parseMintAccount(accounts.mint);
+  if (!tokenData) return null;
+
+  // Only a genesis that is already known; search resolves the rest for matches
+  const genesis = getKnownGenesis(provider, mintAddress);
+  const mintDate = genesis?.blockTime ? new Date(genesis.blockTime * 1000) : undefined;
+
+  // Try to decode metadata if available
+  const metadata = resolveMetadata(tokenData, accounts.metadata);
+
+  // Use metadata values if available, fallback to mint data
+  const tokenName = sanitizeTokenText(metadata?.name || tokenData.name || '');
+  const tokenSymbol = sanitizeTokenText(metadata?.symbol || tokenData.symbol || '');
+
+  // Skip tokens with invalid or missing names/symbols
+  if (requireName && (tokenName === 'Unknown' || tokenSymbol === 'Unknown')) {
+    return null;
+  }
+
+  return {
+    address: mintAddress,
+    name: tokenName,
+    symbol: tokenSymbol,
+    source: 'on-chain',
+    mintDate,
+    isNewToken: isNewMint(mintDate),
+    supply: tokenData.supply,
+    decimals: tokenData.decimals,
+    mintAuthority: tokenData.mintAuthority,
+    freezeAuthority: tokenData.freezeAuthority,
+    programId: tokenData.programId,
+    extensions: tokenData.extensions,
+    creator: genesis ?? undefined,
+    metadata
+  };
+}
+
+// Resolve many mints at once, in input order. Entries are null for addresses
+// that are not mints and, when requireName is set, for unnamed tokens. A
+// failed read throws, so callers cannot mistake it for a missing token.
+export async function getTokenInfosFromMints(
+  mintAddresses: string[],
+  requireName = true,
+  provider = getTokenDataProvider()
+): Promise<Array<TokenInfo | null>> {
+  if (mintAddresses.length === 0) return [];
+
+  const accounts = await getMintAccounts(provider, mintAddresses);
+  return mintAddresses.map((mint, index) => buildTokenInfo(provider, mint, accounts[index], requireName));
+}
+
+export async function getTokenInfoFromMint(
+  mintAddress: string,
+  requireName = true,
+  provider = getTokenDataProvider()
 ): Promise<TokenInfo | null> {
-  try {
-    const mintPubkey = new PublicKey(mintAddress);
-    const [tokenInfo, metadataInfo] = await Promise.all([
-      retryWithBackoff(
-        () => connection.getParsedAccountInfo(mintPubkey),
-        2
-      ),
-      retryWithBackoff(
-        () => connection.getAccountInfo(findMetadataAddress(mintPubkey)),
-        1
-      ).catch(() => null)
-    ]);
-
-    if (!tokenInfo.value?.data || typeof tokenInfo.value.data !== 'object') return null;
-
-    const data = tokenInfo.value.data;
-    if (!('parsed' in data) || data.parsed.type !== 'mint') return null;
-
-    const tokenData = data.parsed.info;
-    const currentTime = new Date();
-    const mintDate = blockTime ? new Date(blockTime * 1000) : undefined;
-    const isNewToken = mintDate ? (currentTime.getTime() - mintDate.getTime() <= 24 * 60 * 60 * 1000) : false;
-
-    // Try to decode metadata if available
-    let metadata;
-    if (metadataInfo?.data) {
-      try {
-        const nameLength = metadataInfo.data[4];
-        const name = metadataInfo.data.slice(5, 5 + nameLength).toString('utf8');
-        
-        const symbolStart = 5 + nameLength;
-        const symbolLength = metadataInfo.data[symbolStart];
-        const symbol = metadataInfo.data.slice(symbolStart + 1, symbolStart + 1 + symbolLength).toString('utf8');
-        
-        const uriStart = symbolStart + 1 + symbolLength;
-        const uriLength = metadataInfo.data[uriStart];
-        const uri = metadataInfo.data.slice(uriStart + 1, uriStart + 1 + uriLength).toString('utf8');
-
-        metadata = {
-          name: sanitizeTokenText(name),
-          symbol: sanitizeTokenText(symbol),
-          uri
-        };
-      } catch {
-        // Ignore metadata parsing errors
+  const [token] = await getTokenInfosFromMints([mintAddress], requireName, provider);
+  return token ?? null;
+}
+
+// Whether an address is a mint account. Unlike getTokenInfoFromMint, a
+// failed read throws instead of answering no.
+export async function isTokenMint(address: string, provider = getTokenDataProvider()): Promise<boolean> {
+  const account = await retryWithBackoff(() => provider.getParsedAccountInfo(address), 2);
+  return parseMintAccount(account) !== null;
+}
+
+// Instruction types that create a new mint
+const INITIALIZE_MINT_TYPES = ['initializeMint', 'initializeMint2'];
+
+// A mint created by an initializeMint/initializeMint2 instruction
+interface MintInitialization {
+  mint: string;
+  creator: TokenCreator;
+}
+
+// Find mints initialized by a transaction, including via CPI (launchpads)
+function findMintInitializations(tx: ParsedTransactionWithMeta): MintInitialization[] {
+  // A failed transaction initialized nothing
+  if (tx.meta?.err) return [];
+
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions?.flatMap(inner => inner.instructions) || [])
+  ];
+  const feePayer = tx.transaction.message.accountKeys[0]?.pubkey.toBase58();
+  if (!feePayer) return [];
+
+  const initializations = new Map<string, MintInitialization>();
+  for (const instruction of instructions) {
+    if (!('parsed' in instruction)) continue;
+    if (instruction.program !== 'spl-token' && instruction.program !== 'spl-token-2022') continue;
+    if (!INITIALIZE_MINT_TYPES.includes(instruction.parsed?.type)) continue;
+
+    const info = instruction.parsed.info;
+    if (typeof info?.mint !== 'string' || initializations.has(info.mint)) continue;
+
+    initializations.set(info.mint, {
+      mint: info.mint,
+      creator: {
+        deployer: feePayer,
+        initialMintAuthority: typeof info.mintAuthority === 'string' ? info.mintAuthority : null,
+        signature: tx.transaction.signatures[0],
+        slot: tx.slot,
+        blockTime: tx.blockTime ?? null
       }
-    }
+    });
+  }
+  return Array.from(initializations.values());
+}
 
-    // Use metadata values if available, fallback to mint data
-    const tokenName = metadata?.name || sanitizeTokenText(tokenData.name || '');
-    const tokenSymbol = metadata?.symbol || sanitizeTokenText(tokenData.symbol || '');
+// Subscribe to token-program logs and report every newly initialized mint
+// that resolves to a named token. Returns an unsubscribe function.
+export function subscribeToNewMints(
+  onToken: (token: TokenInfo) => void,
+  provider = getTokenDataProvider()
+): () => void {
+  const handleLogs = async ({ signature, err, logs }: { signature: string; err: unknown; logs: string[] }) => {
+    if (err) return;
+    const initializesMint = logs.some(line =>
+      line.includes('Instruction: InitializeMint') // also matches InitializeMint2
+    );
+    if (!initializesMint) return;
 
-    // Skip tokens with invalid or missing names/symbols
-    if (tokenName === 'Unknown' || tokenSymbol === 'Unknown') {
-      return null;
+    try {
+      const tx = await retryWithBackoff(() => provider.getParsedTransaction(signature), 2);
+      if (!tx) return;
+
+      for (const { mint, creator } of findMintInitializations(tx)) {
+        rememberGenesis(provider, mint, creator);
+        const token = await getTokenInfoFromMint(mint, true, provider);
+        if (!token) continue;
+        indexToken(token, tx.slot);
+        onToken(withRiskReport(withVerification(token)));
+      }
+    } catch (error) {
+      logError('Error resolving new mint from logs:', error);
     }
+  };
 
-    return {
-      address: mintAddress,
-      name: tokenName,
-      symbol: tokenSymbol,
-      source: 'on-chain',
-      mintDate,
-      isNewToken,
-      supply: tokenData.supply || '0',
-      metadata
-    };
+  const unsubscribes = TOKEN_PROGRAM_IDS.map(programId =>
+    provider.onLogs(programId.toBase58(), logs => void handleLogs(logs))
+  );
+
+  return () => {
+    for (const unsubscribe of unsubscribes) unsubscribe();
+  };
+}
+
+// Mints younger than this are flagged as new
+const NEW_TOKEN_AGE_MS = 24 * 60 * 60 * 1000;
+
+export function isNewMint(mintDate?: Date, now = new Date()): boolean {
+  return mintDate ? now.getTime() - mintDate.getTime() <= NEW_TOKEN_AGE_MS : false;
+}
+
+const GENESIS_PAGE_SIZE = 1000;
+// Signature pages walked per call by the token page and by search
+export const DETAIL_GENESIS_PAGES = 20;
+const SEARCH_GENESIS_PAGES = 2;
+// Anyone can send to a mint address before it is created, so the oldest few
+// transactions are checked for the initialize-mint instruction
+const GENESIS_CANDIDATES = 5;
+const MAX_CACHED_GENESES = 10_000;
+
+// Where an unfinished walk stopped, so the next call carries on from there
+// instead of starting over at the newest signature
+interface GenesisProgress {
+  before: string;
+  // Oldest signatures seen so far, newest first
+  oldest: ConfirmedSignatureInfo[];
+}
+
+// In front of the token index, which keeps resolved geneses for good. Keyed
+// per provider, like the market and metadata caches, so a replay never sees
+// geneses a live provider resolved earlier in the same process.
+const genesisCache = new Map<string, TokenCreator>();
+const genesisProgress = new Map<string, GenesisProgress>();
+const pendingGeneses = new Map<string, Promise<TokenCreator | null>>();
+
+const genesisKey = (provider: TokenDataProvider, mint: string) => `${provider.name}:${mint}`;
+
+function cacheGenesis(key: string, genesis: TokenCreator) {
+  if (genesisCache.size >= MAX_CACHED_GENESES) genesisCache.clear();
+  genesisCache.set(key, genesis);
+}
+
+// Record an initialize-mint transaction seen anywhere, in memory and in the index
+function rememberGenesis(provider: TokenDataProvider, mint: string, genesis: TokenCreator) {
+  const key = genesisKey(provider, mint);
+  if (genesisCache.has(key)) return;
+  cacheGenesis(key, genesis);
+  genesisProgress.delete(key);
+  try {
+    saveMintGenesis(mint, genesis);
+  } catch (error) {
+    logError('Error writing mint genesis to token index:', error);
+  }
+}
+
+// A genesis resolved earlier, without any RPC calls
+function getKnownGenesis(provider: TokenDataProvider, mint: string): TokenCreator | null {
+  const key = genesisKey(provider, mint);
+  const cached = genesisCache.get(key);
+  if (cached) return cached;
+
+  try {
+    const stored = getMintGenesis(mint);
+    if (stored) cacheGenesis(key, stored);
+    return stored;
   } catch {
     return null;
   }
 }
 
-// Interface for Helius API response
-interface HeliusAsset {
-  interface: string;
-  id: string;
-  content: {
-    metadata: {
-      name: string;
-      symbol: string;
-      description?: string;
-    };
-    links?: {
-      image?: string;
+async function walkToGenesis(
+  mintAddress: string,
+  maxPages: number,
+  provider: TokenDataProvider
+): Promise<TokenCreator | null> {
+  const key = genesisKey(provider, mintAddress);
+  const progress = genesisProgress.get(key);
+  let before = progress?.before;
+  let oldest = progress?.oldest ?? [];
+
+  for (let page = 0; page < maxPages; page++) {
+    const signatures = await retryWithBackoff(
+      () => provider.getSignaturesForAddress(mintAddress, { limit: GENESIS_PAGE_SIZE, before }),
+      2
+    );
+    oldest = [...oldest, ...signatures].slice(-GENESIS_CANDIDATES);
+
+    if (signatures.length < GENESIS_PAGE_SIZE) {
+      genesisProgress.delete(key);
+      for (const sig of [...oldest].reverse()) {
+        if (sig.err) continue;
+        const tx = await retryWithBackoff(() => provider.getParsedTransaction(sig.signature), 2);
+        const genesis = tx && findMintInitializations(tx).find(init => init.mint === mintAddress)?.creator;
+        if (genesis) {
+          rememberGenesis(provider, mintAddress, genesis);
+          return genesis;
+        }
+      }
+      return null;
+    }
+    before = signatures[signatures.length - 1].signature;
+  }
+
+  if (before) {
+    if (genesisProgress.size >= MAX_CACHED_GENESES) genesisProgress.clear();
+    genesisProgress.set(key, { before, oldest });
+  }
+  return null;
+}
+
+// Find a mint's initialize-mint transaction by walking its signature history
+// back to the start and checking the oldest transactions. Returns null if the
+// start is more than maxPages pages of 1000 signatures away (a later call
+// picks up where this one stopped) or holds no initialization.
+export async function resolveMintGenesis(
+  mintAddress: string,
+  maxPages = DETAIL_GENESIS_PAGES,
+  provider = getTokenDataProvider()
+): Promise<TokenCreator | null> {
+  const known = getKnownGenesis(provider, mintAddress);
+  if (known) return known;
+
+  // Concurrent walks of one mint would trample each other's progress
+  const key = genesisKey(provider, mintAddress);
+  let pending = pendingGeneses.get(key);
+  if (!pending) {
+    pending = walkToGenesis(mintAddress, maxPages, provider).finally(() => pendingGeneses.delete(key));
+    pendingGeneses.set(key, pending);
+  }
+  return pending;
+}
+
+// List mints deployed by a wallet (as fee payer of the initialize-mint
+// transaction), newest first. Scans up to maxSignatures of the wallet's history.
+export async function getTokensByCreator(
+  walletAddress: string,
+  maxSignatures = 1000,
+  provider = getTokenDataProvider()
+): Promise<TokenInfo[]> {
+  const found = new Map<string, TokenCreator>();
+  let before: string | undefined;
+  let scanned = 0;
+
+  while (scanned < maxSignatures) {
+    const limit = Math.min(1000, maxSignatures - scanned);
+    const signatures = await retryWithBackoff(
+      () => provider.getSignaturesForAddress(walletAddress, { limit, before }),
+      2
+    );
+    if (signatures.length === 0) break;
+    scanned += signatures.length;
+    before = signatures[signatures.length - 1].signature;
+
+    // Fetch transactions in small batches; the request scheduler paces them
+    const batchSize = 10;
+    for (let i = 0; i < signatures.length; i += batchSize) {
+      const batch = signatures.slice(i, i + batchSize).filter(sig => !sig.err);
+      const txs = await Promise.all(batch.map(sig =>
+        retryWithBackoff(() => provider.getParsedTransaction(sig.signature), 2).catch(() => null)
+      ));
+
+      for (const tx of txs) {
+        if (!tx) continue;
+        for (const { mint, creator } of findMintInitializations(tx)) {
+          if (creator.deployer === walletAddress && !found.has(mint)) {
+            found.set(mint, creator);
+            rememberGenesis(provider, mint, creator);
+          }
+        }
+      }
+    }
+
+    if (signatures.length < limit) break;
+  }
+
+  const entries = Array.from(found.entries());
+  const tokens = await getTokenInfosFromMints(entries.map(([mint]) => mint), false, provider);
+
+  return tokens
+    .map((token, index) => token && withRiskReport(withVerification({ ...token, creator: entries[index][1] })))
+    .filter((token): token is TokenInfo => token !== null)
+    .sort((a, b) => (b.mintDate?.getTime() || 0) - (a.mintDate?.getTime() || 0));
+}
+
+// Fast token lookup using the DAS symbol index. Returns one page of results and
+// whether the index has more. A failed lookup throws: an empty page would read
+// as "no such token" and hide the outage.
+async function searchTokensBySymbol(
+  provider: TokenDataProvider,
+  query: string,
+  page = 1,
+  limit = DAS_PAGE_SIZE
+): Promise<{ tokens: TokenInfo[]; hasMore: boolean }> {
+  const response = await retryWithBackoff(
+    () => provider.getAssetsBySymbol(query.toUpperCase(), page, limit),
+    3
+  );
+
+  // Providers without DAS support return null
+  if (!response?.items) return { tokens: [], hasMore: false };
+
+  const tokens = response.items
+    .filter((asset): asset is DasAsset => Boolean(asset?.content?.metadata?.symbol)) // Only return tokens with symbols
+    .map(asset => ({
+      address: asset.id,
+      name: asset.content.metadata.name || 'Unknown',
+      symbol: asset.content.metadata.symbol || 'Unknown',
+      source: 'helius-das',
+      isNewToken: false,
+      supply: asset.token_info?.supply?.toString() || '0',
+      decimals: asset.token_info?.decimals,
+      // DAS leaves revoked authorities out of token_info
+      mintAuthority: asset.token_info ? asset.token_info.mint_authority ?? null : undefined,
+      freezeAuthority: asset.token_info ? asset.token_info.freeze_authority ?? null : undefined,
+      programId: asset.token_info?.token_program,
+      mintDate: asset.created_at ? new Date(asset.created_at) : undefined,
+      image: asset.content.links?.image ? rewriteMetadataUri(asset.content.links.image) ?? undefined : undefined,
+      description: asset.content.metadata.description || undefined,
+      links: asset.content.links?.external_url
+        ? { website: rewriteMetadataUri(asset.content.links.external_url) ?? undefined }
+        : undefined,
+      metadata: asset.content.json_uri
+        ? {
+            name: asset.content.metadata.name,
+            symbol: asset.content.metadata.symbol,
+            uri: asset.content.json_uri
+          }
+        : undefined
+    }));
+
+  return { tokens, hasMore: response.items.length === limit };
+}
+
+// Count distinct owners with a non-zero balance using DAS getTokenAccounts.
+// Stops after maxPages pages of 1000 accounts and reports whether it finished.
+export async function getHolderCount(
+  mintAddress: string,
+  maxPages = 10,
+  provider = getTokenDataProvider()
+): Promise<{ count: number; complete: boolean }> {
+  const pageSize = 1000;
+  const owners = new Set<string>();
+
+  for (let page = 1; page <= maxPages; page++) {
+    const response = await retryWithBackoff(() => provider.getTokenAccounts(mintAddress, page, pageSize), 3);
+    if (!response) {
+      throw new Error(`Holder counts are not supported by the ${provider.name} provider`);
+    }
+
+    const accounts = response.token_accounts || [];
+    for (const account of accounts) {
+      if (Number(account.amount) > 0) owners.add(account.owner);
+    }
+    if (accounts.length < pageSize) {
+      return { count: owners.size, complete: true };
+    }
+  }
+
+  return { count: owners.size, complete: false };
+}
+
+// Holder count, largest holders with their owners, and supply concentration
+export async function getHolderAnalytics(
+  mintAddress: string,
+  provider = getTokenDataProvider()
+): Promise<HolderAnalytics | null> {
+  const [supply, largest, holderCount] = await Promise.all([
+    retryWithBackoff(() => provider.getTokenSupply(mintAddress), 2),
+    retryWithBackoff(() => provider.getTokenLargestAccounts(mintAddress), 2),
+    // Without DAS the largest accounts give a lower bound below
+    getHolderCount(mintAddress, 10, provider).catch(() => null)
+  ]);
+
+  const largestAccounts = largest.filter(account => account.amount !== '0');
+  const ownerAccounts = largestAccounts.length > 0
+    ? await retryWithBackoff(
+        () => provider.getMultipleParsedAccounts(largestAccounts.map(account => account.address.toBase58())),
+        2
+      )
+    : [];
+
+  const topHolders: TokenHolder[] = largestAccounts.map((account, index) => {
+    const data = ownerAccounts[index]?.data;
+    const owner = data && 'parsed' in data && typeof data.parsed?.info?.owner === 'string'
+      ? data.parsed.info.owner as string
+      : null;
+
+    return {
+      account: account.address.toBase58(),
+      owner,
+      amount: account.amount,
+      percentage: percentageOfSupply(account.amount, supply.amount),
+      excludedReason: getExclusionReason(owner)
     };
+  });
+
+  return {
+    holderCount: holderCount?.count ?? new Set(topHolders.map(holder => holder.owner ?? holder.account)).size,
+    holderCountIsComplete: holderCount?.complete ?? false,
+    topHolders,
+    concentration: computeConcentration(topHolders, supply.amount)
   };
-  authorities?: Array<{
-    address: string;
-    scopes: string[];
-  }>;
-  compression: {
-    compressed: boolean;
-    data_hash: string;
-    creator_hash: string;
-    asset_hash: string;
-    tree: string;
-    seq: number;
-    leaf_id: number;
-  };
-  grouping?: Array<{
-    group_key: string;
-    group_value: string;
-  }>;
-  royalty: {
-    royalty_model: string;
-    target: null | number;
-    percent: number;
-    basis_points: number;
-    primary_sale_happened: boolean;
-    locked: boolean;
-  };
-  supply: {
-    print_max_supply: number;
-    print_current_supply: number;
-    edition_nonce: number;
-  };
-  mutable: boolean;
-  burnt: boolean;
-  token_info?: {
-    balance?: string;
-    supply?: string;
-    mint?: string;
+}
+
+export const DEFAULT_ACTIVITY_LIMIT = 25;
+export const MAX_ACTIVITY_LIMIT = 100;
+
+export interface TokenActivityPage {
+  // Newest first
+  events: TokenActivityEvent[];
+  // Pass back as `before` to load older events
+  cursor: string | null;
+}
+
+// One page of a mint's activity, built from the transactions that reference
+// the mint account. Failed transactions are skipped. Plain `transfer`
+// instructions do not reference the mint, so only transfers made with
+// `transferChecked` (what wallets send today) show up. Returns null if the
+// address is not a mint.
+export async function getTokenActivity(
+  mintAddress: string,
+  options: { before?: string; limit?: number } = {},
+  provider = getTokenDataProvider()
+): Promise<TokenActivityPage | null> {
+  const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_ACTIVITY_LIMIT), MAX_ACTIVITY_LIMIT);
+  const [signatures, [accounts]] = await Promise.all([
+    retryWithBackoff(() => provider.getSignaturesForAddress(mintAddress, { before: options.before, limit }), 2),
+    getMintAccounts(provider, [mintAddress])
+  ]);
+  const mint = parseMintAccount(accounts.mint);
+  if (!mint) return null;
+
+  const transactions = await Promise.all(signatures
+    .filter(sig => !sig.err)
+    .map(sig => retryWithBackoff(() => provider.getParsedTransaction(sig.signature), 2)));
+
+  return {
+    events: transactions.flatMap(tx => (tx ? classifyTokenActivity(tx, mintAddress, mint.decimals) : [])),
+    cursor: signatures.length === limit ? signatures[signatures.length - 1].signature : null
   };
-  ownership: {
-    frozen: boolean;
-    delegated: boolean;
-    delegate: null | string;
-    owner: string;
-    ownership_model: string;
+}
+
+// Fill in the holder count for a search result. Only one page is read, so
+// popular tokens are reported as a lower bound.
+async function withHolderCount(provider: TokenDataProvider, token: TokenInfo): Promise<TokenInfo> {
+  try {
+    const { count, complete } = await getHolderCount(token.address, 1, provider);
+    return { ...token, holders: count, holderCountIsComplete: complete };
+  } catch {
+    return token;
+  }
+}
+
+// Merge off-chain JSON metadata (logo, description, socials) into a token.
+// Values already provided by the DAS index take precedence.
+async function withOffChainMetadata(provider: TokenDataProvider, token: TokenInfo): Promise<TokenInfo> {
+  if (!token.metadata?.uri) return token;
+
+  const offChain = await resolveOffChainMetadata(token.metadata.uri, provider);
+  if (!offChain) return token;
+
+  return {
+    ...token,
+    image: token.image ?? offChain.image,
+    description: token.description ?? offChain.description,
+    links: { ...offChain.links, ...token.links }
   };
-  created_at?: string;
-  updated_at?: string;
 }
 
-interface HeliusResponse {
-  jsonrpc: string;
-  result: {
-    items: HeliusAsset[];
-    total: number;
-    limit: number;
-    page: number;
+// Check the token against the verified token list. The raw metadata values
+// still contain the lookalike characters that sanitizing strips.
+function withVerification(token: TokenInfo): TokenInfo {
+  return {
+    ...token,
+    verification: verifyToken({
+      address: token.address,
+      name: token.name,
+      symbol: token.symbol,
+      image: token.image,
+      rawName: token.metadata?.name,
+      rawSymbol: token.metadata?.symbol
+    })
   };
-  id: string;
-  error?: {
-    code: number;
-    message: string;
+}
+
+// Date a token by its initialize-mint transaction. Tokens whose genesis is
+// not resolved keep the date they came with, such as DAS's created_at.
+async function withGenesis(
+  provider: TokenDataProvider,
+  token: TokenInfo,
+  maxPages = SEARCH_GENESIS_PAGES
+): Promise<TokenInfo> {
+  // Creators indexed before they carried a block time are looked up again
+  const genesis = token.creator?.blockTime !== undefined
+    ? token.creator
+    : await resolveMintGenesis(token.address, maxPages, provider).catch(error => {
+        if (error?.name !== 'AbortError') logError('Error resolving mint genesis:', error);
+        return null;
+      });
+  const mintDate = genesis?.blockTime ? new Date(genesis.blockTime * 1000) : token.mintDate;
+  return { ...token, creator: genesis ?? token.creator, mintDate, isNewToken: isNewMint(mintDate) };
+}
+
+// Attach a rug-risk report computed from whatever the token has resolved so far
+function withRiskReport(token: TokenInfo): TokenInfo {
+  return { ...token, risk: assessTokenRisk(token) };
+}
+
+// Resolve genesis, off-chain metadata and holder counts, verify and score risk for a result set with bounded concurrency.
+// onEnriched sees each token as soon as its batch is done.
+async function enrichTokens(
+  provider: TokenDataProvider,
+  tokens: TokenInfo[],
+  onEnriched?: (token: TokenInfo) => void,
+  concurrency = 5
+): Promise<TokenInfo[]> {
+  const enriched: TokenInfo[] = [];
+  for (let i = 0; i < tokens.length; i += concurrency) {
+    const batch = await Promise.all(
+      tokens.slice(i, i + concurrency).map(async token =>
+        withRiskReport(withVerification(
+          await withHolderCount(provider, await withOffChainMetadata(provider, await withGenesis(provider, token)))
+        ))
+      )
+    );
+    batch.forEach(token => onEnriched?.(token));
+    enriched.push(...batch);
+  }
+  return enriched;
+}
+
+// The persistent index is an optimization: if it cannot be opened, search
+// falls back to live RPC instead of failing
+function indexToken(token: TokenInfo, slot?: number | null) {
+  try {
+    upsertToken(token, slot);
+  } catch (error) {
+    logError('Error writing to token index:', error);
+  }
+}
+
+function searchIndexSafely(query: string): TokenInfo[] {
+  try {
+    return searchIndex(query, MAX_RESULTS_PER_PAGE);
+  } catch (error) {
+    logError('Error searching token index:', error);
+    return [];
+  }
+}
+
+function getCrawledRangesSafely(programId: string): CrawledRange[] {
+  try {
+    const checkpoint = getCheckpoint(programId);
+    return checkpoint ? getCrawledRanges(checkpoint) : [];
+  } catch {
+    return [];
+  }
+}
+
+// The next range the indexer has crawled below a scan position, which the
+// scan can jump over. Ranges are newest first.
+function nextCrawledRange(
+  ranges: CrawledRange[],
+  position: { signature: string; slot: number } | null
+): CrawledRange | null {
+  if (!position) return ranges[0] ?? null;
+  return ranges.find(range =>
+    range.newerSlot <= position.slot &&
+    range.newerSignature !== position.signature &&
+    range.olderSignature !== position.signature
+  ) ?? null;
+}
+
+// Where a paginated search left off: the next DAS page, or for the signature
+// scan the oldest signature processed per token program and its slot, which
+// places it among the ranges the indexer has crawled. `seen` holds the
+// addresses the first page served from the persistent index, which the live
+// pages after it leave out.
+type SearchCursor = (
+  | { phase: 'das'; page: number }
+  | { phase: 'scan'; before: Record<string, string>; beforeSlot: Record<string, number>; done: string[] }
+) & { seen?: string[] };
+
+const START_SCAN: Extract<SearchCursor, { phase: 'scan' }> = { phase: 'scan', before: {}, beforeSlot: {}, done: [] };
+
+export interface SearchOptions {
+  // Opaque cursor from a previous SearchResult
+  cursor?: string | null;
+  // Signatures to scan per token program in this request
+  scanDepth?: number;
+  // Drop results whose relevance score is below this (0-100)
+  minScore?: number;
+  // Only return tokens matching these, in this order; defaults to relevance
+  filters?: SearchFilters;
+  sort?: SearchSort;
+  // Where chain data comes from; defaults to the configured provider
+  provider?: TokenDataProvider;
+  // Stops the search and its queued RPC requests; searchTokens then rejects
+  // with the signal's reason
+  signal?: AbortSignal;
+  // Called with each matching token as soon as it is resolved. The final
+  // ranking and page cut are only in the SearchResult.
+  onToken?: (token: TokenInfo) => void;
+  // Called with running totals as the search advances
+  onProgress?: (scanned: SearchResult['scanned']) => void;
+}
+
+export interface SearchResult {
+  tokens: TokenInfo[];
+  hasMore: boolean;
+  // Pass back as SearchOptions.cursor to load the next page
+  cursor: string | null;
+  scanned: {
+    // Matches served from the persistent index
+    indexed: number;
+    dasPages: number;
+    signatures: number;
+    mints: number;
   };
+  // RPC requests and provider credits this page consumed
+  usage: RequestUsage;
 }
 
-// Fast token lookup using Helius DAS API
-async function searchTokensBySymbol(query: string): Promise<TokenInfo[]> {
+const DAS_PAGE_SIZE = 50;
+// DAS pages read in one request when filters leave them empty
+const MAX_DAS_PAGES_PER_REQUEST = 5;
+const MAX_RESULTS_PER_PAGE = 50;
+export const DEFAULT_SCAN_DEPTH = 100;
+export const MAX_SCAN_DEPTH = 1000;
+
+// How the search phases hand matches and progress back to runSearch
+interface SearchReporter {
+  signal?: AbortSignal;
+  // Enrich newly matched tokens, emit them and return them enriched
+  addTokens(tokens: TokenInfo[]): Promise<TokenInfo[]>;
+  scanProgress(signatures: number, mints: number): void;
+}
+
+function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Decode a cursor from a SearchResult; returns null if it is malformed
+export function parseSearchCursor(cursor: string): SearchCursor | null {
   try {
-    // Use the correct API endpoint with proper rate limit handling
-    const response = await retryWithBackoff<HeliusResponse>(async () => {
-      const fetchResponse = await fetch(`https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 'token-search',
-          method: 'getAssetsByGroup',
-          params: {
-            groupKey: 'symbol',
-            groupValue: query.toUpperCase(),
-            page: 1,
-            limit: 10
-          }
-        })
-      });
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const { seen } = value ?? {};
+    if (
+      seen !== undefined &&
+      !(Array.isArray(seen) && seen.length <= MAX_RESULTS_PER_PAGE && seen.every(address => typeof address === 'string'))
+    ) {
+      return null;
+    }
+    const extra = seen ? { seen: seen as string[] } : {};
 
-      if (!fetchResponse.ok) {
-        throw new Error(`Failed to fetch from Helius API: ${fetchResponse.statusText}`);
-      }
+    // The index page hands over the first DAS page
+    if (value?.phase === 'das' && Number.isInteger(value.page) && (value.page > 1 || seen)) {
+      return { phase: 'das', page: value.page, ...extra };
+    }
+    if (
+      value?.phase === 'scan' &&
+      value.before && typeof value.before === 'object' &&
+      Object.values(value.before).every(sig => typeof sig === 'string') &&
+      value.beforeSlot && typeof value.beforeSlot === 'object' &&
+      Object.values(value.beforeSlot).every(slot => Number.isInteger(slot)) &&
+      Array.isArray(value.done) && value.done.every((id: unknown) => typeof id === 'string')
+    ) {
+      return { phase: 'scan', before: value.before, beforeSlot: value.beforeSlot, done: value.done, ...extra };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+// Scan one window of token-program signatures for mints matching the query
+async function scanSignaturesForTokens(
+  provider: TokenDataProvider,
+  searchQuery: string,
+  cursor: Extract<SearchCursor, { phase: 'scan' }>,
+  scanDepth: number,
+  minScore: number,
+  filters: SearchFilters,
+  results: Map<string, TokenInfo>,
+  reporter: SearchReporter
+): Promise<{ next: SearchCursor | null; signatures: number; mints: number }> {
+  // Search recent transactions across both the SPL Token and Token-2022
+  // programs, newest first, continuing below the cursor for each program
+  const programIds = TOKEN_PROGRAM_IDS
+    .map(programId => programId.toBase58())
+    .filter(programId => !cursor.done.includes(programId));
+
+  // Only scan what the background indexer has not crawled yet: each window
+  // stops at the next crawled range and the following one resumes below it
+  const nextRanges = programIds.map(programId => {
+    const before = cursor.before[programId];
+    const slot = cursor.beforeSlot[programId];
+    return nextCrawledRange(
+      getCrawledRangesSafely(programId),
+      before && slot !== undefined ? { signature: before, slot } : null
+    );
+  });
+
+  const signaturesByProgram = await Promise.all(
+    programIds.map((programId, index) => getProgramSignatures(programId, {
+      limit: scanDepth,
+      before: cursor.before[programId],
+      until: nextRanges[index]?.newerSignature
+    }, provider))
+  );
+  const recentSignatures = signaturesByProgram
+    .flatMap((signatures, index) => signatures.map(sig => ({ ...sig, programId: programIds[index] })))
+    .sort((a, b) => b.slot - a.slot);
+
+  const checkedMints = new Set<string>();
+  const seen = new Set(cursor.seen);
+
+  // Process transactions in groups: read the group's transactions in
+  // parallel, then resolve all new mints they touched in one batched lookup.
+  // The request scheduler keeps the parallel reads under the rate limits.
+  const groupSize = 30;
+  let processed = 0;
 
-      const data: HeliusResponse = await fetchResponse.json();
-      if (data.error) {
-        throw new Error(data.error.message || 'Helius API error');
+  while (processed < recentSignatures.length && results.size < MAX_RESULTS_PER_PAGE) {
+    reporter.signal?.throwIfAborted();
+    const group = recentSignatures.slice(processed, processed + groupSize);
+    const transactions = await Promise.all(group.map(sig =>
+      getTransactionMints(sig.signature, provider).catch(() => ({ mints: [] as string[] }))
+    ));
+
+    const newMints: Array<{ mint: string; slot: number }> = [];
+    transactions.forEach(({ mints }, index) => {
+      for (const mint of mints) {
+        if (results.has(mint) || checkedMints.has(mint) || seen.has(mint)) continue;
+        checkedMints.add(mint);
+        newMints.push({ mint, slot: group[index].slot });
       }
+    });
 
-      return data;
-    }, 3, 1000); // More retries with longer base delay
+    // A batch that cannot be read is skipped, like its transactions above
+    const tokens = await getTokenInfosFromMints(newMints.map(({ mint }) => mint), true, provider)
+      .catch(() => newMints.map(() => null));
+    const scored: TokenInfo[] = [];
+    tokens.forEach((tokenInfo, index) => {
+      if (!tokenInfo) return;
 
-    if (!response?.result?.items) return [];
+      // Everything the live scan resolves feeds the persistent index
+      indexToken(tokenInfo, newMints[index].slot);
+      const match = scoreTokenMatch(searchQuery, tokenInfo);
+      if (match && match.score >= minScore) {
+        scored.push({ ...tokenInfo, match });
+      }
+    });
 
-    return response.result.items
-      .filter((asset): asset is HeliusAsset => Boolean(asset?.content?.metadata?.symbol)) // Only return tokens with symbols
-      .map(asset => ({
-        address: asset.id,
-        name: asset.content.metadata.name || 'Unknown',
-        symbol: asset.content.metadata.symbol || 'Unknown',
-        source: 'helius-das',
-        isNewToken: false,
-        supply: asset.token_info?.supply?.toString() || '0',
-        mintDate: asset.created_at ? new Date(asset.created_at) : undefined
-      }));
+    const undated = scored.filter(token => matchesSearchFilters(token, withoutDateFilters(filters)));
+    const matches = await filterByMintDate(provider, undated, filters);
 
-  } catch (error) {
-    console.error('Error searching tokens by symbol:', error);
-    return [];
+    for (const token of await reporter.addTokens(matches)) {
+      results.set(token.address, token);
+    }
+    processed += group.length;
+    reporter.scanProgress(processed, checkedMints.size);
+  }
+
+  // Record the oldest processed signature per program. The merged list is
+  // sorted newest first, so each program's processed signatures are a prefix.
+  const before = { ...cursor.before };
+  const beforeSlot = { ...cursor.beforeSlot };
+  const done = [...cursor.done];
+  const processedSignatures = new Set<string>();
+  for (const sig of recentSignatures.slice(0, processed)) {
+    before[sig.programId] = sig.signature;
+    beforeSlot[sig.programId] = sig.slot;
+    processedSignatures.add(sig.signature);
   }
+  programIds.forEach((programId, index) => {
+    const signatures = signaturesByProgram[index];
+    // A short page means this window of the program's history is exhausted
+    if (signatures.length >= scanDepth || !signatures.every(sig => processedSignatures.has(sig.signature))) {
+      return;
+    }
+
+    const range = nextRanges[index];
+    if (range?.olderSignature && range.olderSlot !== null) {
+      // Reached a crawled range: continue below it
+      before[programId] = range.olderSignature;
+      beforeSlot[programId] = range.olderSlot;
+    } else {
+      done.push(programId);
+    }
+  });
+
+  const next: SearchCursor | null = done.length >= TOKEN_PROGRAM_IDS.length
+    ? null
+    : { phase: 'scan', before, beforeSlot, done, ...(cursor.seen ? { seen: cursor.seen } : {}) };
+
+  return { next, signatures: processed, mints: checkedMints.size };
+}
+
+// Score tokens against the query, drop weak matches and those the filters
+// exclude, and order the rest. Relevance sorts by score, then newest first.
+// Date filters need the mint's real age, which the DAS created_at or the
+// transaction a token was found in may not give, so every search path dates
+// its candidates by genesis before applying them
+async function filterByMintDate(
+  provider: TokenDataProvider,
+  tokens: TokenInfo[],
+  filters: SearchFilters
+): Promise<TokenInfo[]> {
+  if (!filters.mintedAfter && !filters.mintedBefore) return tokens;
+  const dated = await Promise.all(tokens.map(token => withGenesis(provider, token)));
+  return dated.filter(token => matchesSearchFilters(token, filters));
 }
 
-export async function searchTokens(query: string): Promise<TokenInfo[]> {
+function rankSearchResults(
+  tokens: TokenInfo[],
+  searchQuery: string,
+  minScore: number,
+  filters: SearchFilters = {},
+  sort: SearchSort = 'relevance'
+): TokenInfo[] {
+  return sortTokens(
+    tokens
+      .map(token => ({ ...token, match: token.match ?? scoreTokenMatch(searchQuery, token) ?? undefined }))
+      .filter(token => token.match && token.match.score >= minScore && matchesSearchFilters(token, filters)),
+    sort
+  );
+}
+
+async function runSearch(query: string, options: SearchOptions): Promise<Omit<SearchResult, 'usage'>> {
   try {
     const results = new Map<string, TokenInfo>();
     const searchQuery = query.toLowerCase().trim();
-
-    // Try direct symbol lookup first
-    if (query.length <= 10) { // Only for reasonable ticker lengths
-      const dasResults = await searchTokensBySymbol(query);
-      for (const token of dasResults) {
-        results.set(token.address, token);
+    const scanDepth = Math.min(Math.max(1, options.scanDepth ?? DEFAULT_SCAN_DEPTH), MAX_SCAN_DEPTH);
+    const provider = options.provider ?? getTokenDataProvider();
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+    const filters = options.filters ?? {};
+    const undatedFilters = withoutDateFilters(filters);
+    const sort = options.sort ?? 'relevance';
+    const scanned = { indexed: 0, dasPages: 0, signatures: 0, mints: 0 };
+    const { signal, onToken, onProgress } = options;
+    const reporter: SearchReporter = {
+      signal,
+      addTokens: async tokens => {
+        const enriched = await enrichTokens(provider, tokens, onToken);
+        signal?.throwIfAborted();
+        return enriched;
+      },
+      scanProgress: (signatures, mints) => {
+        scanned.signatures = signatures;
+        scanned.mints = mints;
+        onProgress?.({ ...scanned });
       }
+    };
 
-      // If we found exact matches, return them immediately
-      if (results.size > 0) {
-        return Array.from(results.values())
-          .sort((a, b) => {
-            // Exact symbol matches first
-            const aExactMatch = a.symbol.toLowerCase() === searchQuery;
-            const bExactMatch = b.symbol.toLowerCase() === searchQuery;
-            if (aExactMatch && !bExactMatch) return -1;
-            if (!aExactMatch && bExactMatch) return 1;
-            return 0;
-          });
-      }
+    const parsedCursor = options.cursor ? parseSearchCursor(options.cursor) : null;
+    if (options.cursor && !parsedCursor) {
+      throw new Error('Invalid search cursor');
     }
 
-    // If no results from symbol search, try searching recent transactions
-    const recentSignatures = await retryWithBackoff(
-      () => connection.getSignaturesForAddress(
-        new PublicKey(TOKEN_PROGRAM_ID),
-        { limit: 100 }
-      ),
-      2
+    // Start with the DAS symbol index for reasonable ticker lengths, then
+    // fall back to scanning token-program transactions
+    let cursor: SearchCursor = parsedCursor ?? (
+      query.length <= 10 ? { phase: 'das', page: 1 } : START_SCAN
     );
 
-    // Process transactions in parallel batches
-    const batchSize = 10;
-    const batches: Array<Promise<void[]>> = [];
-    
-    for (let i = 0; i < recentSignatures.length && results.size < 50; i += batchSize) {
-      const batch = recentSignatures.slice(i, i + batchSize);
-      
-      const batchPromise = Promise.all(
-        batch.map(async (sig) => {
-          try {
-            let tx = transactionCache.get(sig.signature);
-            if (!tx) {
-              const parsedTx = await retryWithBackoff(
-                () => connection.getParsedTransaction(sig.signature, {
-                  maxSupportedTransactionVersion: 0,
-                  commitment: 'confirmed'
-                }),
-                2
-              );
-              
-              if (parsedTx) {
-                tx = {
-                  meta: {
-                    postTokenBalances: parsedTx.meta?.postTokenBalances?.map(balance => ({
-                      mint: balance.mint
-                    }))
-                  },
-                  blockTime: parsedTx.blockTime
-                };
-                transactionCache.set(sig.signature, tx);
-                
-                if (transactionCache.size > 1000) {
-                  const firstKey = Array.from(transactionCache.keys())[0];
-                  if (firstKey) {
-                    transactionCache.delete(firstKey);
-                  }
-                }
-              }
-            }
-
-            if (!tx?.meta?.postTokenBalances?.length) return;
-
-            const mintPromises = tx.meta.postTokenBalances
-              .map(balance => balance.mint)
-              .filter((mintAddress): mintAddress is string => 
-                typeof mintAddress === 'string' &&
-                !results.has(mintAddress)
-              )
-              .map(async (mintAddress) => {
-                const tokenInfo = await getTokenInfoFromMint(mintAddress, tx.blockTime);
-                if (tokenInfo && matchesTokenQuery(searchQuery, tokenInfo.name, tokenInfo.symbol, mintAddress)) {
-                  results.set(mintAddress, tokenInfo);
-                }
-              });
-
-            await Promise.all(mintPromises);
-          } catch {
-            // Skip error logging for faster processing
-          }
-        })
-      );
-
-      batches.push(batchPromise);
-      
-      if (batches.length === 3) {
-        await Promise.all(batches);
-        batches.length = 0;
-        await delay(300);
+    // The first page comes from the persistent index when it has matches;
+    // live RPC then fills the gaps on the following pages, skipping them
+    if (!parsedCursor) {
+      const indexed = rankSearchResults(searchIndexSafely(query), searchQuery, minScore, undatedFilters, sort);
+      const matches = await filterByMintDate(provider, indexed, filters);
+      signal?.throwIfAborted();
+      if (matches.length > 0) {
+        scanned.indexed = matches.length;
+        onProgress?.({ ...scanned });
+        // Ranked again once enrichment has filled in mint dates and holder counts
+        const tokens = rankSearchResults(await reporter.addTokens(matches), searchQuery, minScore, filters, sort);
+        return {
+          tokens,
+          hasMore: true,
+          cursor: encodeSearchCursor({ ...cursor, seen: indexed.map(token => token.address) }),
+          scanned
+        };
       }
     }
+    const seen = parsedCursor?.seen;
+    const seenAddresses = new Set(seen);
+
+    // Filters can empty whole DAS pages; keep paging through the index, a few
+    // pages per request, and only fall back to the scan once it runs out
+    for (let pages = 0; cursor.phase === 'das'; pages++) {
+      const { tokens, hasMore } = await searchTokensBySymbol(provider, query, cursor.page);
+      signal?.throwIfAborted();
+      scanned.dasPages++;
+      onProgress?.({ ...scanned });
+
+      const next: SearchCursor = {
+        ...(hasMore ? { phase: 'das', page: cursor.page + 1 } : START_SCAN),
+        ...(seen ? { seen } : {})
+      };
+      const dasTokens = await filterByMintDate(provider, rankSearchResults(
+        tokens.filter(token => !seenAddresses.has(token.address)),
+        searchQuery,
+        minScore,
+        undatedFilters,
+        sort
+      ), filters);
+      signal?.throwIfAborted();
+      if (dasTokens.length > 0) {
+        return {
+          tokens: rankSearchResults(await reporter.addTokens(dasTokens), searchQuery, minScore, filters, sort),
+          hasMore: true,
+          cursor: encodeSearchCursor(next),
+          scanned
+        };
+      }
 
-    if (batches.length > 0) {
-      await Promise.all(batches);
+      if (hasMore && pages + 1 >= MAX_DAS_PAGES_PER_REQUEST) {
+        return { tokens: [], hasMore: true, cursor: encodeSearchCursor(next), scanned };
+      }
+      cursor = next;
     }
 
-    // Sort and return results
-    const allTokens = Array.from(results.values());
-    return allTokens
-      .sort((a, b) => {
-        // Exact matches first
-        const aExactMatch = a.symbol.toLowerCase() === searchQuery || a.name.toLowerCase() === searchQuery;
-        const bExactMatch = b.symbol.toLowerCase() === searchQuery || b.name.toLowerCase() === searchQuery;
-        if (aExactMatch && !bExactMatch) return -1;
-        if (!aExactMatch && bExactMatch) return 1;
-
-        // Then by mint date
-        if (!a.mintDate && !b.mintDate) return 0;
-        if (!a.mintDate) return 1;
-        if (!b.mintDate) return -1;
-        return b.mintDate.getTime() - a.mintDate.getTime();
-      })
-      .slice(0, 50);
+    const scan = await scanSignaturesForTokens(
+      provider,
+      searchQuery,
+      cursor,
+      scanDepth,
+      minScore,
+      filters,
+      results,
+      reporter
+    );
+    scanned.signatures = scan.signatures;
+    scanned.mints = scan.mints;
 
+    // Sort and return results; they were enriched as the scan found them
+    const sortedTokens = rankSearchResults(Array.from(results.values()), searchQuery, minScore, filters, sort)
+      .slice(0, MAX_RESULTS_PER_PAGE);
+
+    return {
+      tokens: sortedTokens,
+      hasMore: scan.next !== null,
+      cursor: scan.next ? encodeSearchCursor(scan.next) : null,
+      scanned
+    };
   } catch (error) {
-    console.error('Error in searchTokens:', error);
+    if (!options.signal?.aborted) {
+      logError('Error in searchTokens:', error);
+    }
     throw error;
   }
 }
 
-export async function getTokenDetails(address: string): Promise<TokenInfo | null> {
+export async function searchTokens(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+  const { result, usage } = await trackRequestUsage(() => runSearch(query, options), options.signal);
+  return { ...result, usage };
+}
+
+export async function getTokenDetails(
+  address: string,
+  provider = getTokenDataProvider()
+): Promise<TokenInfo | null> {
   try {
-    let mintDate: Date | undefined;
-    
-    // Get mint date from on-chain data
-    try {
-      const signatures = await connection.getSignaturesForAddress(
-        new PublicKey(address),
-        { limit: 10 }
-      );
+    // The genesis walk pages through the full signature history, so start it early
+    const genesisPromise = resolveMintGenesis(address, DETAIL_GENESIS_PAGES, provider).catch(error => {
+      logError('Error resolving mint genesis:', error);
+      return null;
+    });
+    const holdersPromise = getHolderAnalytics(address, provider).catch(error => {
+      logError('Error fetching holder analytics:', error);
+      return null;
+    });
+    const marketPromise = getTokenMarket(address, provider).catch(error => {
+      logError('Error fetching token market:', error);
+      return undefined;
+    });
 
-      if (signatures.length > 0) {
-        // Sort to get the earliest transaction
-        const sortedSigs = signatures.sort((a, b) => 
-          (a.blockTime || 0) - (b.blockTime || 0)
-        );
-        
-        const tx = await connection.getTransaction(sortedSigs[0].signature);
-        mintDate = tx?.blockTime ? new Date(tx.blockTime * 1000) : undefined;
-      }
-    } catch (error) {
-      console.error('Error fetching token mint date:', error);
-    }
+    // Get token data and metadata. A failed read is an error, not a
+    // missing token, so it is not caught here.
+    const [accounts] = await getMintAccounts(provider, [address]);
 
-    // Get token data
-    try {
-      const tokenInfo = await connection.getParsedAccountInfo(new PublicKey(address));
-      if (!tokenInfo.value?.data || typeof tokenInfo.value.data !== 'object') return null;
-      
-      const data = tokenInfo.value.data;
-      if ('parsed' in data && data.parsed.type === 'mint') {
-        const tokenData = data.parsed.info;
-        const isNewToken = mintDate ? 
-          (new Date().getTime() - mintDate.getTime() <= 24 * 60 * 60 * 1000) : 
-          false;
-        
-        return {
-          address: address,
-          name: tokenData.name || 'Unknown',
-          symbol: tokenData.symbol || 'Unknown',
-          source: 'on-chain',
-          mintDate,
-          isNewToken
-        };
-      }
-    } catch (error) {
-      console.error('Error getting on-chain token details:', error);
+    const tokenData = parseMintAccount(accounts.mint);
+    if (tokenData) {
+      const metadata = resolveMetadata(tokenData, accounts.metadata);
+      const genesis = await genesisPromise;
+      const mintDate = genesis?.blockTime ? new Date(genesis.blockTime * 1000) : undefined;
+      const holderAnalytics = await holdersPromise;
+
+      const token = await withOffChainMetadata(provider, {
+        address: address,
+        name: metadata?.name || tokenData.name || 'Unknown',
+        symbol: metadata?.symbol || tokenData.symbol || 'Unknown',
+        source: 'on-chain',
+        mintDate,
+        isNewToken: isNewMint(mintDate),
+        supply: tokenData.supply,
+        decimals: tokenData.decimals,
+        mintAuthority: tokenData.mintAuthority,
+        freezeAuthority: tokenData.freezeAuthority,
+        programId: tokenData.programId,
+        extensions: tokenData.extensions,
+        creator: genesis ?? undefined,
+        metadata,
+        holders: holderAnalytics?.holderCount,
+        holderCountIsComplete: holderAnalytics?.holderCountIsComplete,
+        holderAnalytics: holderAnalytics ?? undefined,
+        market: await marketPromise
+      });
+      return withRiskReport(withVerification(token));
     }
 
     return null;
   } catch (error) {
-    console.error('Error getting token details:', error);
+    logError('Error getting token details:', error);
     throw error;
   }
 } 
\ No newline at end of file
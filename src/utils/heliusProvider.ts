@@ -0,0 +1,59 @@
+import { createRpcProvider, RpcProviderOptions } from './rpcProvider';
+import type { DasAssetPage, DasTokenAccountPage, TokenDataProvider } from './tokenDataProvider';
+
+interface DasResponse<T> {
+  jsonrpc: string;
+  result: T;
+  id: string;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+// Provider for Helius: standard RPC plus the DAS methods Helius serves on the
+// same endpoint
+export function createHeliusProvider(apiKey: string, options: RpcProviderOptions = {}): TokenDataProvider {
+  const endpoint = `https://mainnet.helius-rpc.com/?api-key=${apiKey}`;
+  const fetchFn = options.fetch ?? fetch;
+  const rpc = createRpcProvider(endpoint, { ...options, name: options.name ?? 'helius' });
+
+  // POST a JSON-RPC request for a DAS method (these are not on Connection)
+  const callDas = async <T>(id: string, method: string, params: unknown): Promise<T> => {
+    const response = await fetchFn(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch from Helius API: ${response.statusText}`);
+    }
+
+    const data: DasResponse<T> = await response.json();
+    if (data.error) {
+      throw new Error(data.error.message || 'Helius API error');
+    }
+    return data.result;
+  };
+
+  return {
+    ...rpc,
+
+    getAssetsBySymbol: (symbol, page, limit) =>
+      callDas<DasAssetPage>('token-search', 'getAssetsByGroup', {
+        groupKey: 'symbol',
+        groupValue: symbol,
+        page,
+        limit,
+      }),
+
+    getTokenAccounts: (mint, page, limit) =>
+      callDas<DasTokenAccountPage>('holder-count', 'getTokenAccounts', {
+        mint,
+        page,
+        limit,
+        options: { showZeroBalance: false },
+      }),
+  };
+}
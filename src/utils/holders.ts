@@ -0,0 +1,83 @@
+import { PublicKey } from '@solana/web3.js';
+
+// Owners whose balances do not represent a holder who can sell: burn sinks and
+// the authorities that own AMM pool vaults. Other pool vaults are owned by
+// PDAs and are caught by the on-curve check below.
+const KNOWN_EXCLUDED_OWNERS: Record<string, string> = {
+  '1nc1nerator11111111111111111111111111111111': 'Burn address',
+  '11111111111111111111111111111111': 'System program',
+  '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1': 'Raydium AMM v4 vault',
+  'GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL': 'Raydium CPMM vault',
+};
+
+export interface TokenHolder {
+  // Token account address
+  account: string;
+  // Wallet or program that owns the token account
+  owner: string | null;
+  amount: string;
+  percentage: number;
+  // Why this holder is left out of concentration figures, if it is
+  excludedReason?: string;
+}
+
+export interface HolderConcentration {
+  top1: number;
+  top10: number;
+  top20: number;
+}
+
+export interface HolderAnalytics {
+  // Number of distinct owners with a non-zero balance
+  holderCount: number;
+  // False when counting stopped at the page limit and holderCount is a lower bound
+  holderCountIsComplete: boolean;
+  topHolders: TokenHolder[];
+  // Percent of supply held by the largest non-excluded holders
+  concentration: HolderConcentration;
+}
+
+// Reason a holder should be excluded from concentration figures, if any.
+// Owners that are not on the ed25519 curve are PDAs, i.e. controlled by a program.
+export function getExclusionReason(owner: string | null): string | undefined {
+  if (!owner) return undefined;
+  if (KNOWN_EXCLUDED_OWNERS[owner]) return KNOWN_EXCLUDED_OWNERS[owner];
+
+  try {
+    if (!PublicKey.isOnCurve(new PublicKey(owner).toBytes())) {
+      return 'Program-owned account';
+    }
+  } catch {
+    // Not a valid public key; treat as a regular holder
+  }
+  return undefined;
+}
+
+// Share of a raw amount in a raw supply, as a percentage
+export function percentageOfSupply(amount: string, supply: string): number {
+  const total = BigInt(supply || '0');
+  if (total === BigInt(0)) return 0;
+  // Keep two decimals of precision through the integer division
+  return Number((BigInt(amount) * BigInt(10000)) / total) / 100;
+}
+
+// Sum holdings of the largest non-excluded holders. Accounts with the same
+// owner are merged so one wallet holding several accounts counts once.
+export function computeConcentration(holders: TokenHolder[], supply: string): HolderConcentration {
+  const byOwner = new Map<string, bigint>();
+  for (const holder of holders) {
+    if (holder.excludedReason) continue;
+    const key = holder.owner || holder.account;
+    byOwner.set(key, (byOwner.get(key) || BigInt(0)) + BigInt(holder.amount));
+  }
+
+  const amounts = Array.from(byOwner.values()).sort((a, b) => (b > a ? 1 : b < a ? -1 : 0));
+  const sumTop = (count: number) =>
+    percentageOfSupply(amounts.slice(0, count).reduce((sum, value) => sum + value, BigInt(0)).toString(), supply);
+
+  return {
+    top1: sumTop(1),
+    top10: sumTop(10),
+    top20: sumTop(20),
+  };
+}
@@ -0,0 +1,236 @@
+import type { ConfirmedSignatureInfo } from '@solana/web3.js';
+import {
+  getProgramSignatures,
+  getTokenInfosFromMints,
+  getTransactionMints,
+  TOKEN_PROGRAM_IDS
+} from './helius';
+import { isTokenDataProviderConfigured } from './tokenDataProvider';
+import { CrawlerCheckpoint, CrawlerGap, getCheckpoint, getIndexedToken, saveCheckpoint, upsertToken } from './tokenIndex';
+import { logError } from './logger';
+
+// Background crawler that walks token-program history into the token index.
+// Each tick first catches up with new signatures, then fills one page of the
+// newest gap it left behind, then backfills older ones.
+const INDEXER_INTERVAL_MS = Number(process.env.TOKEN_INDEXER_INTERVAL_MS) || 10_000;
+const INDEXER_BATCH_SIZE = Math.min(Number(process.env.TOKEN_INDEXER_BATCH_SIZE) || 100, 1000);
+
+// How far the crawler pages back to reconnect with its checkpoint before it
+// gives up on the gap and starts a new range at the head
+const MAX_FORWARD_PAGES = 5;
+
+// Beyond this many gaps the two oldest are merged, giving up the crawled
+// stretch between them so it is crawled again
+const MAX_GAPS = 20;
+
+// Transactions read in parallel while indexing a page
+const INDEX_CONCURRENCY = 10;
+
+// Mints that resolved without a name are not indexed; remember them so busy
+// mints are not fetched again on every transaction
+const MAX_SKIPPED_MINTS = 10_000;
+const skippedMints = new Set<string>();
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function emptyCheckpoint(programId: string): CrawlerCheckpoint {
+  return {
+    programId,
+    newestSignature: null,
+    newestSlot: null,
+    oldestSignature: null,
+    oldestSlot: null,
+    backfillComplete: false,
+    gaps: []
+  };
+}
+
+// Index every unseen mint touched by the given signatures, oldest first.
+// Transactions are read in parallel batches; the request scheduler keeps
+// them under the provider's rate limits.
+// A failed read throws, failing the tick before the checkpoint moves past
+// these signatures, so the next tick retries them.
+async function indexSignatures(signatures: ConfirmedSignatureInfo[]) {
+  const pending = [...signatures].reverse().filter(sig => !sig.err);
+
+  for (let start = 0; start < pending.length; start += INDEX_CONCURRENCY) {
+    const batch = pending.slice(start, start + INDEX_CONCURRENCY);
+    const transactions = await Promise.all(batch.map(sig => getTransactionMints(sig.signature)));
+
+    // Each unseen mint once, with the oldest slot it appeared in
+    const slots = new Map<string, number>();
+    transactions.forEach(({ mints }, index) => {
+      for (const mint of mints) {
+        if (slots.has(mint) || skippedMints.has(mint) || getIndexedToken(mint)) continue;
+        slots.set(mint, batch[index].slot);
+      }
+    });
+
+    const unseen = [...slots.keys()];
+    const tokens = await getTokenInfosFromMints(unseen);
+    tokens.forEach((token, index) => {
+      if (!token) {
+        if (skippedMints.size >= MAX_SKIPPED_MINTS) skippedMints.clear();
+        skippedMints.add(unseen[index]);
+        return;
+      }
+
+      upsertToken(token, slots.get(unseen[index]));
+    });
+  }
+}
+
+// Add a gap, keeping the list newest first and bounded
+function addGap(gaps: CrawlerGap[], gap: CrawlerGap): CrawlerGap[] {
+  const result = [gap, ...gaps];
+  while (result.length > MAX_GAPS) {
+    const older = result.pop()!;
+    const newer = result.pop()!;
+    result.push({ ...newer, olderSignature: older.olderSignature, olderSlot: older.olderSlot });
+  }
+  return result;
+}
+
+// Catch up from the head of the program's history down to the newest
+// signature already crawled, keeping the crawled range contiguous
+async function crawlForward(checkpoint: CrawlerCheckpoint): Promise<CrawlerCheckpoint> {
+  const { programId, newestSignature } = checkpoint;
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+  let reachedCheckpoint = false;
+
+  for (let page = 0; page < (newestSignature ? MAX_FORWARD_PAGES : 1); page++) {
+    const batch = await getProgramSignatures(programId, {
+      before,
+      until: newestSignature ?? undefined,
+      limit: INDEXER_BATCH_SIZE
+    });
+    signatures.push(...batch);
+
+    if (batch.length < INDEXER_BATCH_SIZE) {
+      reachedCheckpoint = Boolean(newestSignature);
+      break;
+    }
+    before = batch[batch.length - 1].signature;
+  }
+
+  if (signatures.length === 0) return checkpoint;
+
+  if (reachedCheckpoint) {
+    await indexSignatures(signatures);
+    return { ...checkpoint, newestSignature: signatures[0].signature, newestSlot: signatures[0].slot };
+  }
+
+  const page = signatures.slice(0, INDEXER_BATCH_SIZE);
+  await indexSignatures(page);
+  const oldest = page[page.length - 1];
+
+  if (newestSignature) {
+    // Too far behind to close the gap: start a new range at the head and keep
+    // the gap to fill later, so the backfill keeps its place
+    return {
+      ...checkpoint,
+      newestSignature: page[0].signature,
+      newestSlot: page[0].slot,
+      gaps: addGap(checkpoint.gaps, {
+        newerSignature: oldest.signature,
+        newerSlot: oldest.slot,
+        olderSignature: newestSignature,
+        olderSlot: checkpoint.newestSlot ?? 0
+      })
+    };
+  }
+
+  // First run: the range starts at the head
+  return {
+    ...checkpoint,
+    newestSignature: page[0].signature,
+    newestSlot: page[0].slot,
+    oldestSignature: oldest.signature,
+    oldestSlot: oldest.slot,
+    backfillComplete: page.length < INDEXER_BATCH_SIZE
+  };
+}
+
+// Crawl one page of the newest gap, from its newer end down
+async function fillGap(checkpoint: CrawlerCheckpoint): Promise<CrawlerCheckpoint> {
+  const [gap, ...olderGaps] = checkpoint.gaps;
+  if (!gap) return checkpoint;
+
+  const signatures = await getProgramSignatures(checkpoint.programId, {
+    before: gap.newerSignature,
+    until: gap.olderSignature,
+    limit: INDEXER_BATCH_SIZE
+  });
+  await indexSignatures(signatures);
+
+  if (signatures.length < INDEXER_BATCH_SIZE) {
+    return { ...checkpoint, gaps: olderGaps };
+  }
+  const oldest = signatures[signatures.length - 1];
+  return {
+    ...checkpoint,
+    gaps: [{ ...gap, newerSignature: oldest.signature, newerSlot: oldest.slot }, ...olderGaps]
+  };
+}
+
+// Extend the crawled range one page further into the past
+async function crawlBackward(checkpoint: CrawlerCheckpoint): Promise<CrawlerCheckpoint> {
+  if (checkpoint.backfillComplete || !checkpoint.oldestSignature) return checkpoint;
+
+  const signatures = await getProgramSignatures(checkpoint.programId, {
+    before: checkpoint.oldestSignature,
+    limit: INDEXER_BATCH_SIZE
+  });
+  await indexSignatures(signatures);
+
+  const oldest = signatures[signatures.length - 1];
+  return {
+    ...checkpoint,
+    oldestSignature: oldest?.signature ?? checkpoint.oldestSignature,
+    oldestSlot: oldest?.slot ?? checkpoint.oldestSlot,
+    backfillComplete: signatures.length < INDEXER_BATCH_SIZE
+  };
+}
+
+// Run one crawl step for every token program, saving progress after each pass
+export async function runIndexerTick() {
+  for (const programId of TOKEN_PROGRAM_IDS.map(id => id.toBase58())) {
+    let checkpoint = getCheckpoint(programId) ?? emptyCheckpoint(programId);
+
+    checkpoint = await crawlForward(checkpoint);
+    saveCheckpoint(checkpoint);
+
+    checkpoint = await fillGap(checkpoint);
+    saveCheckpoint(checkpoint);
+
+    checkpoint = await crawlBackward(checkpoint);
+    saveCheckpoint(checkpoint);
+  }
+}
+
+// Start crawling on an interval. Ticks never overlap: the next one is
+// scheduled only after the previous one finishes.
+export function startIndexer() {
+  if (timer || !isTokenDataProviderConfigured()) return;
+
+  const tick = async () => {
+    try {
+      await runIndexerTick();
+    } catch (error) {
+      logError('Token indexer tick failed:', error);
+    } finally {
+      // stopIndexer() clears the timer while a tick is running
+      if (timer) timer = setTimeout(tick, INDEXER_INTERVAL_MS);
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+}
+
+export function stopIndexer() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,24 @@
+// Diagnostics from library code go through here instead of straight to the
+// console, so the CLI can keep them out of its output. The web app keeps the
+// default and logs errors with their stack traces.
+export type LogMode = 'verbose' | 'brief' | 'silent';
+
+let logMode: LogMode = 'verbose';
+
+export function setLogMode(mode: LogMode) {
+  logMode = mode;
+}
+
+// Report a failure the caller has handled. Brief mode prints only the
+// error's message, on the same line.
+export function logError(message: string, error?: unknown) {
+  if (logMode === 'silent') return;
+
+  if (error === undefined) {
+    console.error(message);
+  } else if (logMode === 'brief') {
+    console.error(message, error instanceof Error ? error.message : String(error));
+  } else {
+    console.error(message, error);
+  }
+}
@@ -0,0 +1,341 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  AMM_PROGRAM_NAMES,
+  AMM_PROGRAMS,
+  AmmProgram,
+  decodePool,
+  DecodedPool,
+  getPoolPrice,
+} from './ammPools';
+import { getTokenDataProvider, ParsedAccount, TokenDataProvider } from './tokenDataProvider';
+import { logError } from './logger';
+
+// Price and liquidity discovery from on-chain AMM pools. Pools holding the
+// mint are found with getProgramAccounts on each supported AMM, their vault
+// balances read in one batch, and the token priced against SOL, USDC or USDT.
+
+export const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+export const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+
+const QUOTE_SYMBOLS: Record<string, string> = {
+  [WSOL_MINT]: 'SOL',
+  [USDC_MINT]: 'USDC',
+  [USDT_MINT]: 'USDT',
+};
+
+const STABLECOIN_MINTS = [USDC_MINT, USDT_MINT];
+
+// Raydium AMM v4 SOL/USDC pool, read to convert SOL prices to USD
+const SOL_USD_REFERENCE_POOL = '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2';
+
+const BURN_OWNERS = ['1nc1nerator11111111111111111111111111111111'];
+
+// Pools kept per token, deepest first; only these get an LP analysis
+const MAX_POOLS = 10;
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_CACHE_ENTRIES = 1000;
+
+// What happened to a pool's LP tokens, as percentages of all LP tokens the
+// pool issued
+export interface LpStatus {
+  mint: string;
+  // Burned with an SPL burn or sent to a burn address
+  burnedPct: number;
+  // Held by program-controlled addresses, which is where lockers keep them.
+  // The program can release them again, so this is weaker than burned.
+  lockedPct: number;
+}
+
+export interface LiquidityPool {
+  address: string;
+  program: AmmProgram;
+  dex: string;
+  // The other token in the pool
+  quoteMint: string;
+  quoteSymbol?: string;
+  // Price of one whole token in the quote token
+  price: number;
+  priceUsd?: number;
+  // Whole-token amounts available to trade against
+  tokenReserve: number;
+  quoteReserve: number;
+  liquidityUsd?: number;
+  // Constant-product pools only; concentrated pools have no LP token
+  lp?: LpStatus;
+}
+
+export interface TokenMarket {
+  // From the deepest pool with a USD value, and the deepest SOL pool
+  priceUsd?: number;
+  priceSol?: number;
+  // Summed over the pools with a USD value
+  liquidityUsd?: number;
+  pools: LiquidityPool[];
+  updatedAt: string;
+}
+
+interface CacheEntry {
+  value: TokenMarket;
+  expiresAt: number;
+}
+
+const marketCache = new Map<string, CacheEntry>();
+
+// Pool discovery costs eight getProgramAccounts calls, so only a few uncached
+// lookups run at once and concurrent requests for one mint share a lookup
+const MAX_CONCURRENT_LOOKUPS = 2;
+const pendingLookups = new Map<string, Promise<TokenMarket>>();
+const waitingLookups: Array<() => void> = [];
+let activeLookups = 0;
+
+async function acquireLookupSlot() {
+  if (activeLookups < MAX_CONCURRENT_LOOKUPS) {
+    activeLookups++;
+    return;
+  }
+  // The releasing lookup hands its slot straight over
+  await new Promise<void>(resolve => waitingLookups.push(resolve));
+}
+
+function releaseLookupSlot() {
+  const next = waitingLookups.shift();
+  if (next) {
+    next();
+  } else {
+    activeLookups--;
+  }
+}
+
+interface VaultBalance {
+  amount: bigint;
+  decimals: number;
+}
+
+function readVaultBalance(account: ParsedAccount | null | undefined): VaultBalance | null {
+  const data = account?.data;
+  const tokenAmount = data && 'parsed' in data ? data.parsed?.info?.tokenAmount : undefined;
+  if (typeof tokenAmount?.amount !== 'string' || typeof tokenAmount.decimals !== 'number') return null;
+  return { amount: BigInt(tokenAmount.amount), decimals: tokenAmount.decimals };
+}
+
+function readMintSupply(account: ParsedAccount | null | undefined): bigint | null {
+  const data = account?.data;
+  const supply = data && 'parsed' in data ? data.parsed?.info?.supply : undefined;
+  return typeof supply === 'string' ? BigInt(supply) : null;
+}
+
+function toWholeAmount(raw: bigint, decimals: number): number {
+  return Number(raw > BigInt(0) ? raw : BigInt(0)) / 10 ** decimals;
+}
+
+async function getParsedAccounts(provider: TokenDataProvider, addresses: string[]): Promise<Map<string, ParsedAccount | null>> {
+  const unique = Array.from(new Set(addresses));
+  const accounts = new Map<string, ParsedAccount | null>();
+  for (let i = 0; i < unique.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const chunk = unique.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+    const results = await provider.getMultipleParsedAccounts(chunk);
+    chunk.forEach((address, index) => accounts.set(address, results[index]));
+  }
+  return accounts;
+}
+
+// Every pool on the supported AMMs with the mint on either side
+export async function findPools(
+  mint: string,
+  provider = getTokenDataProvider()
+): Promise<Array<{ address: string; pool: DecodedPool }>> {
+  const lookups = AMM_PROGRAM_NAMES.flatMap(program => {
+    const { programId, dataSize, mintOffsets } = AMM_PROGRAMS[program];
+    return mintOffsets.map(async offset => {
+      const accounts = await provider.getProgramAccounts(programId, [
+        { dataSize },
+        { memcmp: { offset, bytes: mint } },
+      ]);
+      return accounts.map(({ pubkey, account }) => ({ address: pubkey, pool: decodePool(program, account.data) }));
+    });
+  });
+
+  const pools = new Map<string, DecodedPool>();
+  for (const found of await Promise.all(lookups)) {
+    for (const { address, pool } of found) {
+      if (pool) pools.set(address, pool);
+    }
+  }
+  return Array.from(pools, ([address, pool]) => ({ address, pool }));
+}
+
+// Price of SOL in USD from the reference pool, or undefined if it cannot be read
+async function getSolPriceUsd(provider: TokenDataProvider): Promise<number | undefined> {
+  const account = await provider.getAccountInfo(SOL_USD_REFERENCE_POOL);
+  const pool = account ? decodePool('raydium-amm-v4', account.data) : null;
+  if (!pool) return undefined;
+
+  const vaults = await getParsedAccounts(provider, [pool.vaultA, pool.vaultB]);
+  const solVault = readVaultBalance(vaults.get(pool.mintA === WSOL_MINT ? pool.vaultA : pool.vaultB));
+  const usdVault = readVaultBalance(vaults.get(pool.mintA === WSOL_MINT ? pool.vaultB : pool.vaultA));
+  if (!solVault || !usdVault || solVault.amount === BigInt(0)) return undefined;
+
+  return toWholeAmount(usdVault.amount, usdVault.decimals) / toWholeAmount(solVault.amount, solVault.decimals);
+}
+
+function getQuoteUsd(quoteMint: string, solPriceUsd?: number): number | undefined {
+  if (STABLECOIN_MINTS.includes(quoteMint)) return 1;
+  if (quoteMint === WSOL_MINT) return solPriceUsd;
+  return undefined;
+}
+
+// Price a pool from the token's side
+function priceLiquidityPool(
+  mint: string,
+  address: string,
+  pool: DecodedPool,
+  vaults: Map<string, ParsedAccount | null>,
+  solPriceUsd?: number
+): LiquidityPool | null {
+  const vaultA = readVaultBalance(vaults.get(pool.vaultA));
+  const vaultB = readVaultBalance(vaults.get(pool.vaultB));
+  if (!vaultA || !vaultB) return null;
+
+  const reserveA = toWholeAmount(vaultA.amount - pool.reservedA, vaultA.decimals);
+  const reserveB = toWholeAmount(vaultB.amount - pool.reservedB, vaultB.decimals);
+  const priceOfA = getPoolPrice(pool, reserveA, reserveB, vaultA.decimals, vaultB.decimals);
+  if (!priceOfA || !Number.isFinite(priceOfA)) return null;
+
+  const tokenIsA = pool.mintA === mint;
+  const quoteMint = tokenIsA ? pool.mintB : pool.mintA;
+  const price = tokenIsA ? priceOfA : 1 / priceOfA;
+  const tokenReserve = tokenIsA ? reserveA : reserveB;
+  const quoteReserve = tokenIsA ? reserveB : reserveA;
+  const quoteUsd = getQuoteUsd(quoteMint, solPriceUsd);
+
+  return {
+    address,
+    program: pool.program,
+    dex: AMM_PROGRAMS[pool.program].label,
+    quoteMint,
+    quoteSymbol: QUOTE_SYMBOLS[quoteMint],
+    price,
+    priceUsd: quoteUsd !== undefined ? price * quoteUsd : undefined,
+    tokenReserve,
+    quoteReserve,
+    liquidityUsd: quoteUsd !== undefined ? (tokenReserve * price + quoteReserve) * quoteUsd : undefined,
+  };
+}
+
+function toPercentage(part: bigint, total: bigint): number {
+  if (total <= BigInt(0)) return 0;
+  const percentage = Number((part * BigInt(10000)) / total) / 100;
+  return Math.min(Math.max(percentage, 0), 100);
+}
+
+// Burned and locked shares of a pool's LP tokens. Burns are found by
+// comparing the pool's own count of issued LP tokens with the mint supply;
+// burn addresses and locks by looking at the largest LP holders.
+async function getLpStatus(
+  provider: TokenDataProvider,
+  pool: DecodedPool,
+  lpSupply: bigint | null
+): Promise<LpStatus | undefined> {
+  if (!pool.lpMint || lpSupply === null) return undefined;
+
+  const issued = pool.lpIssued && pool.lpIssued > lpSupply ? pool.lpIssued : lpSupply;
+  let burned = issued - lpSupply;
+  let locked = BigInt(0);
+
+  const largest = (await provider.getTokenLargestAccounts(pool.lpMint)).filter(account => account.amount !== '0');
+  const holders = await getParsedAccounts(provider, largest.map(account => account.address.toBase58()));
+  for (const account of largest) {
+    const data = holders.get(account.address.toBase58())?.data;
+    const owner = data && 'parsed' in data ? data.parsed?.info?.owner : undefined;
+    if (typeof owner !== 'string') continue;
+
+    if (BURN_OWNERS.includes(owner)) {
+      burned += BigInt(account.amount);
+    } else if (!PublicKey.isOnCurve(new PublicKey(owner).toBytes())) {
+      locked += BigInt(account.amount);
+    }
+  }
+
+  return { mint: pool.lpMint, burnedPct: toPercentage(burned, issued), lockedPct: toPercentage(locked, issued) };
+}
+
+function setCached(key: string, value: TokenMarket) {
+  marketCache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  if (marketCache.size > MAX_CACHE_ENTRIES) {
+    const oldestKey = marketCache.keys().next().value;
+    if (oldestKey !== undefined) marketCache.delete(oldestKey);
+  }
+}
+
+async function loadTokenMarket(mint: string, provider: TokenDataProvider): Promise<TokenMarket> {
+  const [found, solPriceUsd] = await Promise.all([
+    findPools(mint, provider),
+    getSolPriceUsd(provider).catch(error => {
+      logError('Error reading SOL price:', error);
+      return undefined;
+    }),
+  ]);
+
+  const accounts = await getParsedAccounts(provider, found.flatMap(({ pool }) =>
+    [pool.vaultA, pool.vaultB, ...(pool.lpMint ? [pool.lpMint] : [])]
+  ));
+
+  const priced = found
+    .map(({ address, pool }) => ({ pool, liquidityPool: priceLiquidityPool(mint, address, pool, accounts, solPriceUsd) }))
+    .filter((entry): entry is { pool: DecodedPool; liquidityPool: LiquidityPool } => entry.liquidityPool !== null)
+    .sort((a, b) => (b.liquidityPool.liquidityUsd ?? -1) - (a.liquidityPool.liquidityUsd ?? -1))
+    .slice(0, MAX_POOLS);
+
+  const pools = await Promise.all(priced.map(async ({ pool, liquidityPool }) => {
+    const lp = await getLpStatus(provider, pool, pool.lpMint ? readMintSupply(accounts.get(pool.lpMint)) : null)
+      .catch(error => {
+        logError('Error reading LP status:', error);
+        return undefined;
+      });
+    return lp ? { ...liquidityPool, lp } : liquidityPool;
+  }));
+
+  // Pools are sorted deepest first
+  const valued = pools.filter(pool => pool.liquidityUsd !== undefined);
+  const solPool = pools.find(pool => pool.quoteMint === WSOL_MINT);
+  const priceUsd = valued[0]?.priceUsd;
+  return {
+    priceUsd,
+    priceSol: solPool?.price ?? (priceUsd !== undefined && solPriceUsd ? priceUsd / solPriceUsd : undefined),
+    liquidityUsd: valued.length > 0 ? valued.reduce((sum, pool) => sum + (pool.liquidityUsd ?? 0), 0) : undefined,
+    pools,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Price, liquidity and pools for a mint. Results are cached for a minute.
+export async function getTokenMarket(mint: string, provider = getTokenDataProvider()): Promise<TokenMarket> {
+  const cacheKey = `${provider.name}:${mint}`;
+  const cached = marketCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  // SOL and the stablecoins are in more pools than are worth listing
+  if (QUOTE_SYMBOLS[mint]) {
+    return { pools: [], updatedAt: new Date().toISOString() };
+  }
+
+  const pending = pendingLookups.get(cacheKey);
+  if (pending) return pending;
+
+  const lookup = (async () => {
+    await acquireLookupSlot();
+    try {
+      const market = await loadTokenMarket(mint, provider);
+      setCached(cacheKey, market);
+      return market;
+    } finally {
+      releaseLookupSlot();
+    }
+  })().finally(() => pendingLookups.delete(cacheKey));
+
+  pendingLookups.set(cacheKey, lookup);
+  return lookup;
+}
@@ -0,0 +1,217 @@
+import { PublicKey } from '@solana/web3.js';
+
+// Metadata program ID
+export const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+// Helper function to get metadata address
+export function findMetadataAddress(mint: PublicKey): PublicKey {
+  const [publicKey] = PublicKey.findProgramAddressSync(
+    [
+      Buffer.from('metadata'),
+      METADATA_PROGRAM_ID.toBuffer(),
+      mint.toBuffer(),
+    ],
+    METADATA_PROGRAM_ID
+  );
+  return publicKey;
+}
+
+// Account discriminator stored in the first byte of every Token Metadata account
+const METADATA_V1_KEY = 4;
+
+export type TokenStandard =
+  | 'NonFungible'
+  | 'FungibleAsset'
+  | 'Fungible'
+  | 'NonFungibleEdition'
+  | 'ProgrammableNonFungible'
+  | 'ProgrammableNonFungibleEdition';
+
+const TOKEN_STANDARDS: TokenStandard[] = [
+  'NonFungible',
+  'FungibleAsset',
+  'Fungible',
+  'NonFungibleEdition',
+  'ProgrammableNonFungible',
+  'ProgrammableNonFungibleEdition',
+];
+
+export type UseMethod = 'Burn' | 'Multiple' | 'Single';
+
+const USE_METHODS: UseMethod[] = ['Burn', 'Multiple', 'Single'];
+
+export interface MetadataCreator {
+  address: string;
+  verified: boolean;
+  share: number;
+}
+
+export interface MetadataCollection {
+  verified: boolean;
+  key: string;
+}
+
+// u64 counters are kept as strings so they survive JSON serialization
+export interface MetadataUses {
+  useMethod: UseMethod;
+  remaining: string;
+  total: string;
+}
+
+// Full Metaplex Token Metadata `Metadata` account
+export interface MetaplexMetadata {
+  updateAuthority: string;
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: MetadataCreator[] | null;
+  primarySaleHappened: boolean;
+  isMutable: boolean;
+  editionNonce: number | null;
+  tokenStandard: TokenStandard | null;
+  collection: MetadataCollection | null;
+  uses: MetadataUses | null;
+}
+
+// Minimal Borsh reader over a metadata account buffer
+class BorshReader {
+  private offset = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  u8(): number {
+    this.ensure(1);
+    return this.data.readUInt8(this.offset++);
+  }
+
+  u16(): number {
+    this.ensure(2);
+    const value = this.data.readUInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.ensure(4);
+    const value = this.data.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): bigint {
+    this.ensure(8);
+    const value = this.data.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  publicKey(): string {
+    this.ensure(32);
+    const key = new PublicKey(this.data.subarray(this.offset, this.offset + 32));
+    this.offset += 32;
+    return key.toBase58();
+  }
+
+  // u32 length-prefixed string; Metaplex pads fixed-size fields with null bytes
+  string(): string {
+    const length = this.u32();
+    this.ensure(length);
+    const value = this.data.toString('utf8', this.offset, this.offset + length);
+    this.offset += length;
+    return value.replace(/\0/g, '').trim();
+  }
+
+  // Borsh Option<T>. Fields appended in later program versions are missing or
+  // zero-padded on older accounts, so running out of data is treated as None.
+  option<T>(read: () => T): T | null {
+    if (this.remaining < 1) return null;
+    return this.u8() === 0 ? null : read();
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Unexpected end of metadata account data');
+    }
+  }
+}
+
+// Decode a Metaplex Token Metadata account. Returns null if the buffer is not a
+// metadata account or is too short to hold the required fields.
+export function decodeMetadata(data: Buffer): MetaplexMetadata | null {
+  try {
+    const reader = new BorshReader(data);
+    if (reader.u8() !== METADATA_V1_KEY) return null;
+
+    const updateAuthority = reader.publicKey();
+    const mint = reader.publicKey();
+    const name = reader.string();
+    const symbol = reader.string();
+    const uri = reader.string();
+    const sellerFeeBasisPoints = reader.u16();
+
+    const creators = reader.option(() => {
+      const count = reader.u32();
+      const list: MetadataCreator[] = [];
+      for (let i = 0; i < count; i++) {
+        list.push({
+          address: reader.publicKey(),
+          verified: reader.bool(),
+          share: reader.u8(),
+        });
+      }
+      return list;
+    });
+
+    const primarySaleHappened = reader.bool();
+    const isMutable = reader.bool();
+
+    // Optional trailing fields: tolerate truncation on older accounts
+    let editionNonce: number | null = null;
+    let tokenStandard: TokenStandard | null = null;
+    let collection: MetadataCollection | null = null;
+    let uses: MetadataUses | null = null;
+    try {
+      editionNonce = reader.option(() => reader.u8());
+      tokenStandard = reader.option(() => TOKEN_STANDARDS[reader.u8()] ?? null);
+      collection = reader.option(() => ({
+        verified: reader.bool(),
+        key: reader.publicKey(),
+      }));
+      uses = reader.option(() => ({
+        useMethod: USE_METHODS[reader.u8()] ?? 'Single',
+        remaining: reader.u64().toString(),
+        total: reader.u64().toString(),
+      }));
+    } catch {
+      // Leave any remaining fields unset
+    }
+
+    return {
+      updateAuthority,
+      mint,
+      name,
+      symbol,
+      uri,
+      sellerFeeBasisPoints,
+      creators,
+      primarySaleHappened,
+      isMutable,
+      editionNonce,
+      tokenStandard,
+      collection,
+      uses,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,45 @@
+import { subscribeToNewMints, TokenInfo } from './helius';
+
+// Most recent mints kept in memory and replayed to new feed clients
+const FEED_BUFFER_SIZE = 100;
+
+type FeedListener = (token: TokenInfo) => void;
+
+const recentMints: TokenInfo[] = [];
+const listeners = new Set<FeedListener>();
+let unsubscribe: (() => void) | null = null;
+
+function publish(token: TokenInfo) {
+  if (recentMints.some(existing => existing.address === token.address)) return;
+
+  recentMints.push(token);
+  if (recentMints.length > FEED_BUFFER_SIZE) {
+    recentMints.shift();
+  }
+
+  for (const listener of listeners) {
+    listener(token);
+  }
+}
+
+// Newest-last snapshot of the buffered mints
+export function getRecentMints(): TokenInfo[] {
+  return [...recentMints];
+}
+
+// Listen for new mints. The RPC subscription is shared between all listeners
+// and is opened on the first listener and closed when the last one leaves.
+export function addFeedListener(listener: FeedListener): () => void {
+  listeners.add(listener);
+  if (!unsubscribe) {
+    unsubscribe = subscribeToNewMints(publish);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
+    }
+  };
+}
@@ -0,0 +1,294 @@
+import dns from 'dns';
+import net from 'net';
+import { Agent, fetch, type Response } from 'undici';
+import type { TokenDataProvider } from './tokenDataProvider';
+
+// Resolves the off-chain JSON document referenced by a token's metadata URI
+
+// Public gateways used to turn content-addressed URIs into fetchable URLs
+const IPFS_GATEWAY = process.env.IPFS_GATEWAY || 'https://ipfs.io/ipfs/';
+const ARWEAVE_GATEWAY = process.env.ARWEAVE_GATEWAY || 'https://arweave.net/';
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_RESPONSE_BYTES = 256 * 1024;
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const FAILURE_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 2000;
+
+export interface TokenLinks {
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+}
+
+// Normalized subset of the off-chain JSON we surface on TokenInfo
+export interface OffChainMetadata {
+  image?: string;
+  description?: string;
+  links: TokenLinks;
+}
+
+interface CacheEntry {
+  value: OffChainMetadata | null;
+  expiresAt: number;
+}
+
+const metadataCache = new Map<string, CacheEntry>();
+const pendingRequests = new Map<string, Promise<OffChainMetadata | null>>();
+
+// Rewrite ipfs:// and ar:// URIs (and bare IPFS gateway paths) to HTTPS gateway URLs.
+// Returns null for anything that is not a fetchable http(s) URL.
+export function rewriteMetadataUri(uri: string): string | null {
+  const trimmed = uri.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('ipfs://')) {
+    return IPFS_GATEWAY + trimmed.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  }
+  if (trimmed.startsWith('ar://')) {
+    return ARWEAVE_GATEWAY + trimmed.slice('ar://'.length);
+  }
+
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Redirects are followed by hand so every hop gets the host check
+const MAX_REDIRECTS = 3;
+
+// IPv6 forms that carry an IPv4 address in their last 32 bits: IPv4-mapped
+// (::ffff:0:0/96), IPv4-translated (::ffff:0:0:0/96), IPv4-compatible
+// (::/96) and NAT64 (64:ff9b::/96)
+const EMBEDDED_IPV4_PREFIX = '(?:::(?:ffff:(?:0:)?)?|64:ff9b::)';
+const EMBEDDED_IPV4 = new RegExp(`^${EMBEDDED_IPV4_PREFIX}(\\d+\\.\\d+\\.\\d+\\.\\d+)$`);
+const EMBEDDED_IPV4_HEX = new RegExp(`^${EMBEDDED_IPV4_PREFIX}([0-9a-f]{1,4}):([0-9a-f]{1,4})$`);
+
+// Loopback, private, link-local and reserved ranges, for IPv4 and IPv6
+// literals. An IPv6 address embedding an IPv4 one (::ffff:127.0.0.1, or
+// ::ffff:7f00:1 as URL parsing writes it) is checked as that IPv4 address.
+function isPrivateAddress(address: string): boolean {
+  let ip = address.toLowerCase();
+
+  if (net.isIP(ip) === 6) {
+    const embedded = ip.match(EMBEDDED_IPV4);
+    const embeddedHex = ip.match(EMBEDDED_IPV4_HEX);
+    if (embedded) {
+      ip = embedded[1];
+    } else if (embeddedHex) {
+      const [high, low] = [parseInt(embeddedHex[1], 16), parseInt(embeddedHex[2], 16)];
+      ip = [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+    } else {
+      if (ip === '::' || ip === '::1') return true;
+      // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast
+      return /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+    }
+  }
+
+  if (net.isIP(ip) !== 4) return false;
+  const [a, b] = ip.split('.').map(Number);
+  if (a === 10 || a === 127 || a === 0 || a >= 224) return true;
+  if (a === 169 && b === 254) return true;
+  if (a === 172 && b >= 16 && b <= 31) return true;
+  if (a === 192 && b === 168) return true;
+  if (a === 100 && b >= 64 && b <= 127) return true;
+  return false;
+}
+
+// Refuse to fetch from loopback and private network hosts: metadata URIs are
+// chosen by whoever created the token and are fetched from our server. Names
+// are checked when the connection is made, by metadataAgent below.
+function isPublicHost(url: URL): boolean {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return false;
+  if (net.isIP(host)) return !isPrivateAddress(host);
+  return true;
+}
+
+// Resolve a host name for a connection, failing it if any address is private.
+// Checking the addresses the socket actually uses, rather than resolving once
+// beforehand, leaves no gap for the name to be rebound to a private address.
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    const blocked = addresses.find(isPrivateAddress);
+    if (blocked) return callback(new Error(`Refusing to connect to private address ${blocked}`), address, family);
+    callback(null, address, family);
+  });
+};
+
+const metadataAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// Read the response body, aborting once it exceeds the size limit
+async function readLimitedText(response: Response, limit: number): Promise<string> {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > limit) {
+    throw new Error(`Metadata response too large (${declaredLength} bytes)`);
+  }
+
+  if (!response.body) return response.text();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.length;
+    if (received > limit) {
+      await reader.cancel();
+      throw new Error(`Metadata response exceeded ${limit} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function normalizeUrl(value: unknown): string | undefined {
+  const raw = asString(value);
+  if (!raw) return undefined;
+  return rewriteMetadataUri(/^[a-z]+:\/\//i.test(raw) ? raw : `https://${raw}`) ?? undefined;
+}
+
+function normalizeTwitter(value: unknown): string | undefined {
+  const raw = asString(value);
+  if (!raw) return undefined;
+
+  const handle = raw.match(/^@?([A-Za-z0-9_]{1,15})$/);
+  if (handle) return `https://x.com/${handle[1]}`;
+
+  const url = normalizeUrl(raw);
+  if (!url) return undefined;
+  const host = new URL(url).hostname.replace(/^www\./, '');
+  return host === 'twitter.com' || host === 'x.com' ? url : undefined;
+}
+
+function normalizeTelegram(value: unknown): string | undefined {
+  const raw = asString(value);
+  if (!raw) return undefined;
+
+  const handle = raw.match(/^@?([A-Za-z0-9_]{5,32})$/);
+  if (handle) return `https://t.me/${handle[1]}`;
+
+  const url = normalizeUrl(raw);
+  if (!url) return undefined;
+  const host = new URL(url).hostname.replace(/^www\./, '');
+  return host === 't.me' || host === 'telegram.me' ? url : undefined;
+}
+
+// Map the loosely-specified token JSON (Metaplex standard plus common
+// launchpad variations) onto our normalized shape
+export function normalizeOffChainMetadata(json: unknown): OffChainMetadata | null {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return null;
+
+  const doc = json as Record<string, unknown>;
+  const extensions = (doc.extensions && typeof doc.extensions === 'object' ? doc.extensions : {}) as Record<string, unknown>;
+  const properties = (doc.properties && typeof doc.properties === 'object' ? doc.properties : {}) as Record<string, unknown>;
+
+  const propertyImage = Array.isArray(properties.files)
+    ? (properties.files as Array<Record<string, unknown>>)
+        .find(file => typeof file?.type === 'string' && file.type.startsWith('image/'))?.uri
+    : undefined;
+
+  return {
+    image: normalizeUrl(doc.image) ?? normalizeUrl(propertyImage),
+    description: asString(doc.description)?.slice(0, 2000),
+    links: {
+      website: normalizeUrl(extensions.website ?? doc.website ?? doc.external_url),
+      twitter: normalizeTwitter(extensions.twitter ?? doc.twitter),
+      telegram: normalizeTelegram(extensions.telegram ?? doc.telegram),
+    },
+  };
+}
+
+// Fetch and normalize the document at an http(s) URL. Providers use this
+// unless they were given their own, e.g. to record or replay documents.
+export async function fetchOffChainMetadata(url: string): Promise<OffChainMetadata | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    let target = new URL(url);
+    for (let redirects = 0; ; redirects++) {
+      if (!isPublicHost(target)) return null;
+
+      const response = await fetch(target, {
+        dispatcher: metadataAgent,
+        signal: controller.signal,
+        headers: { Accept: 'application/json' },
+        redirect: 'manual',
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) return null;
+        target = new URL(location, target);
+        if (target.protocol !== 'https:' && target.protocol !== 'http:') return null;
+        continue;
+      }
+      if (!response.ok) return null;
+
+      const text = await readLimitedText(response, MAX_RESPONSE_BYTES);
+      return normalizeOffChainMetadata(JSON.parse(text));
+    }
+  } catch {
+    // Unreachable hosts, timeouts, oversized or malformed documents
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function setCached(key: string, value: OffChainMetadata | null) {
+  metadataCache.set(key, {
+    value,
+    expiresAt: Date.now() + (value ? CACHE_TTL_MS : FAILURE_CACHE_TTL_MS),
+  });
+
+  if (metadataCache.size > MAX_CACHE_ENTRIES) {
+    const oldestKey = metadataCache.keys().next().value;
+    if (oldestKey !== undefined) metadataCache.delete(oldestKey);
+  }
+}
+
+// Fetch, validate and cache the off-chain metadata for a URI. Documents are
+// fetched through the provider and cached per provider.
+export async function resolveOffChainMetadata(
+  uri: string,
+  provider: TokenDataProvider
+): Promise<OffChainMetadata | null> {
+  const url = rewriteMetadataUri(uri);
+  if (!url) return null;
+
+  const cacheKey = `${provider.name}:${url}`;
+  const cached = metadataCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const pending = pendingRequests.get(cacheKey);
+  if (pending) return pending;
+
+  const request = provider.fetchOffChainMetadata(url)
+    .then(value => {
+      setCached(cacheKey, value);
+      return value;
+    })
+    .finally(() => pendingRequests.delete(cacheKey));
+
+  pendingRequests.set(cacheKey, request);
+  return request;
+}
@@ -0,0 +1,331 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Central scheduler for JSON-RPC traffic. It sits in front of the fetch
+// function a provider uses, so the web3.js Connection and the DAS calls share
+// one set of limits: a token bucket per RPC method, a pause on HTTP 429 for as
+// long as Retry-After asks, and coalescing of identical in-flight requests.
+// Code run through trackRequestUsage gets its own counters and can be
+// cancelled: requests still waiting for a token are then never sent.
+
+export interface MethodLimit {
+  // Sustained requests per second
+  perSecond: number;
+  // Requests that may be sent at once after an idle period
+  burst: number;
+}
+
+export interface MethodUsage {
+  requests: number;
+  credits: number;
+}
+
+export interface RequestUsage {
+  // HTTP requests sent, including retries after a 429
+  requests: number;
+  credits: number;
+  // Requests answered by an identical request already in flight
+  deduplicated: number;
+  // 429 responses received
+  rateLimited: number;
+  byMethod: Record<string, MethodUsage>;
+}
+
+export interface RequestSchedulerOptions {
+  // Limits per RPC method; methods not listed share defaultLimit
+  limits?: Record<string, MethodLimit>;
+  defaultLimit?: MethodLimit;
+  // Credits charged per method; methods not listed cost 1
+  credits?: Record<string, number>;
+  // Attempts after the first 429 before the response is passed on
+  maxRateLimitRetries?: number;
+}
+
+export interface RequestScheduler {
+  fetch: typeof fetch;
+  // Totals since the scheduler was created
+  getUsage(): RequestUsage;
+}
+
+// Helius serves the DAS methods from a smaller allowance than standard RPC
+export const DEFAULT_METHOD_LIMITS: Record<string, MethodLimit> = {
+  getAssetsByGroup: { perSecond: 2, burst: 2 },
+  getTokenAccounts: { perSecond: 2, burst: 2 },
+  getSignaturesForAddress: { perSecond: 5, burst: 5 },
+};
+
+const DEFAULT_LIMIT: MethodLimit = {
+  perSecond: Number(process.env.RPC_REQUESTS_PER_SECOND) || 10,
+  burst: Number(process.env.RPC_REQUESTS_PER_SECOND) || 10,
+};
+
+// Helius credit costs; everything else is one credit per call
+export const DEFAULT_METHOD_CREDITS: Record<string, number> = {
+  getAssetsByGroup: 10,
+  getTokenAccounts: 10,
+  getProgramAccounts: 10,
+};
+
+// Wait used after a 429 that carries no Retry-After header, doubled per retry
+const RATE_LIMIT_BASE_DELAY_MS = 500;
+const MAX_RETRY_AFTER_MS = 60_000;
+
+interface JsonRpcRequest {
+  id?: unknown;
+  method: string;
+  params?: unknown;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+  limit: MethodLimit;
+}
+
+// A response body that can be handed to every caller sharing the request
+interface BufferedResponse {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  text: string;
+}
+
+// One request on the wire and the callers waiting for it. It is cancelled
+// once every one of them has been.
+interface SharedRequest {
+  promise: Promise<BufferedResponse>;
+  controller: AbortController;
+  callers: number;
+}
+
+// Counters and cancellation for the code running inside trackRequestUsage.
+// Nested scopes also count towards the scopes around them.
+interface RequestScope {
+  usage: RequestUsage;
+  signal?: AbortSignal;
+  parent?: RequestScope;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Stop waiting for a shared request when this caller is cancelled. The
+// request itself keeps running for the other callers.
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export function createRequestUsage(): RequestUsage {
+  return { requests: 0, credits: 0, deduplicated: 0, rateLimited: 0, byMethod: {} };
+}
+
+const requestScope = new AsyncLocalStorage<RequestScope>();
+
+// Run fn and count the RPC requests and credits it causes. Requests started
+// concurrently outside fn are not included. Once signal aborts, requests from
+// fn reject with its reason instead of waiting for the rate limiter; without
+// a signal, fn is cancelled along with an enclosing tracked call.
+export async function trackRequestUsage<T>(
+  fn: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<{ result: T; usage: RequestUsage }> {
+  const usage = createRequestUsage();
+  const parent = requestScope.getStore();
+  const result = await requestScope.run({ usage, signal: signal ?? parent?.signal, parent }, fn);
+  return { result, usage };
+}
+
+function parseRequestBody(init?: RequestInit): JsonRpcRequest | null {
+  if (typeof init?.body !== 'string') return null;
+  try {
+    const body = JSON.parse(init.body);
+    return body && typeof body.method === 'string' ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS) : null;
+}
+
+// Give each caller its own Response, answering to its own request id
+function toResponse(buffered: BufferedResponse, id: unknown): Response {
+  let text = buffered.text;
+  if (id !== undefined) {
+    try {
+      const body = JSON.parse(text);
+      if (body && typeof body === 'object' && !Array.isArray(body)) {
+        text = JSON.stringify({ ...body, id });
+      }
+    } catch {
+      // Not JSON; pass the body through unchanged
+    }
+  }
+  return new Response(text, { status: buffered.status, statusText: buffered.statusText, headers: buffered.headers });
+}
+
+export function createRequestScheduler(
+  baseFetch: typeof fetch = fetch,
+  options: RequestSchedulerOptions = {}
+): RequestScheduler {
+  const limits = { ...DEFAULT_METHOD_LIMITS, ...options.limits };
+  const defaultLimit = options.defaultLimit ?? DEFAULT_LIMIT;
+  const credits = { ...DEFAULT_METHOD_CREDITS, ...options.credits };
+  const maxRetries = options.maxRateLimitRetries ?? 5;
+
+  const buckets = new Map<string, TokenBucket>();
+  const inFlight = new Map<string, SharedRequest>();
+  const totals = createRequestUsage();
+  // Set by a 429: no method sends anything until then
+  let pausedUntil = 0;
+
+  const record = (update: (usage: RequestUsage) => void) => {
+    update(totals);
+    for (let scope = requestScope.getStore(); scope; scope = scope.parent) {
+      update(scope.usage);
+    }
+  };
+
+  const recordRequest = (method: string, charged: boolean) => {
+    const cost = charged ? credits[method] ?? 1 : 0;
+    record(usage => {
+      const byMethod = usage.byMethod[method] ?? (usage.byMethod[method] = { requests: 0, credits: 0 });
+      usage.requests++;
+      usage.credits += cost;
+      byMethod.requests++;
+      byMethod.credits += cost;
+    });
+  };
+
+  // Wait until the method's bucket has a token, then take it
+  const acquire = async (method: string, signal?: AbortSignal) => {
+    let bucket = buckets.get(method);
+    if (!bucket) {
+      const limit = limits[method] ?? defaultLimit;
+      bucket = { tokens: limit.burst, updatedAt: Date.now(), limit };
+      buckets.set(method, bucket);
+    }
+
+    for (;;) {
+      signal?.throwIfAborted();
+      const now = Date.now();
+      if (now < pausedUntil) {
+        await sleep(pausedUntil - now, signal);
+        continue;
+      }
+
+      const { perSecond, burst } = bucket.limit;
+      bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond);
+      bucket.updatedAt = now;
+      if (bucket.tokens >= 1) {
+        bucket.tokens--;
+        return;
+      }
+      await sleep(((1 - bucket.tokens) / perSecond) * 1000, signal);
+    }
+  };
+
+  const send = async (
+    method: string,
+    input: RequestInfo | URL,
+    init?: RequestInit,
+    signal?: AbortSignal
+  ): Promise<BufferedResponse> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquire(method, signal);
+      const response = await baseFetch(input, signal ? { ...init, signal } : init);
+      const rateLimited = response.status === 429;
+      recordRequest(method, !rateLimited);
+
+      if (rateLimited) {
+        record(usage => usage.rateLimited++);
+        if (attempt < maxRetries) {
+          const wait = parseRetryAfter(response.headers.get('Retry-After')) ?? RATE_LIMIT_BASE_DELAY_MS * 2 ** attempt;
+          pausedUntil = Math.max(pausedUntil, Date.now() + wait);
+          await response.body?.cancel();
+          continue;
+        }
+      }
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        text: await response.text(),
+      };
+    }
+  };
+
+  const scheduledFetch: typeof fetch = async (input, init) => {
+    const signal = requestScope.getStore()?.signal;
+    const request = parseRequestBody(init);
+    // Batched or non-JSON-RPC bodies are only throttled
+    if (!request) {
+      return toResponse(await send('other', input, init, signal), undefined);
+    }
+
+    // Request ids differ between callers; method, params and endpoint do not
+    const key = JSON.stringify([String(input), request.method, request.params ?? null]);
+    let shared = inFlight.get(key);
+    if (shared) {
+      record(usage => usage.deduplicated++);
+    } else {
+      const controller = new AbortController();
+      const promise = send(request.method, input, init, controller.signal);
+      shared = { promise, controller, callers: 0 };
+      inFlight.set(key, shared);
+      promise
+        .finally(() => {
+          if (inFlight.get(key)?.promise === promise) inFlight.delete(key);
+        })
+        .catch(() => {
+          // Callers handle the rejection
+        });
+    }
+
+    const current = shared;
+    current.callers++;
+    try {
+      return toResponse(await abortable(current.promise, signal), request.id);
+    } finally {
+      current.callers--;
+      if (signal?.aborted && current.callers === 0) {
+        if (inFlight.get(key) === current) inFlight.delete(key);
+        current.controller.abort(signal.reason);
+      }
+    }
+  };
+
+  return {
+    fetch: scheduledFetch,
+    getUsage: () => structuredClone(totals),
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { assessTokenRisk, getRiskLevel, RISK_RULES, RiskInput, RiskStatus } from './risk';
+import type { HolderAnalytics } from './holders';
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+const WALLET = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+
+function analytics(top1: number, top10: number): HolderAnalytics {
+  return {
+    holderCount: 500,
+    holderCountIsComplete: true,
+    topHolders: [],
+    concentration: { top1, top10, top20: top10 },
+  };
+}
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+function evaluate(ruleId: string, token: RiskInput) {
+  const rule = RISK_RULES.find(candidate => candidate.id === ruleId);
+  if (!rule) throw new Error(`No rule ${ruleId}`);
+  return rule.evaluate(token, NOW);
+}
+
+// Each row: rule, token fields, expected status or null when the rule is skipped
+const cases: Array<[string, string, RiskInput, RiskStatus | null]> = [
+  ['mint-authority', 'unknown', {}, null],
+  ['mint-authority', 'revoked', { mintAuthority: null }, 'pass'],
+  ['mint-authority', 'held', { mintAuthority: WALLET }, 'fail'],
+
+  ['freeze-authority', 'unknown', {}, null],
+  ['freeze-authority', 'revoked', { freezeAuthority: null }, 'pass'],
+  ['freeze-authority', 'held', { freezeAuthority: WALLET }, 'fail'],
+
+  ['mutable-metadata', 'no metadata', {}, null],
+  ['mutable-metadata', 'immutable', { metadata: { name: 'A', symbol: 'A', uri: '', isMutable: false } }, 'pass'],
+  ['mutable-metadata', 'mutable', { metadata: { name: 'A', symbol: 'A', uri: '', isMutable: true } }, 'warn'],
+
+  ['holder-concentration', 'unknown', {}, null],
+  ['holder-concentration', 'spread out', { holderAnalytics: analytics(9.99, 29.99) }, 'pass'],
+  ['holder-concentration', 'top holder at 10%', { holderAnalytics: analytics(10, 20) }, 'warn'],
+  ['holder-concentration', 'top 10 at 30%', { holderAnalytics: analytics(5, 30) }, 'warn'],
+  ['holder-concentration', 'top holder at 20%', { holderAnalytics: analytics(20, 25) }, 'fail'],
+  ['holder-concentration', 'top 10 at 50%', { holderAnalytics: analytics(5, 50) }, 'fail'],
+
+  ['holder-count', 'unknown', {}, null],
+  ['holder-count', '9 holders', { holders: 9 }, 'fail'],
+  ['holder-count', '10 holders', { holders: 10 }, 'warn'],
+  ['holder-count', '99 holders', { holders: 99 }, 'warn'],
+  ['holder-count', '100 holders', { holders: 100 }, 'pass'],
+  ['holder-count', '100 holders, count complete', { holders: 100, holderCountIsComplete: true }, 'pass'],
+  ['holder-count', 'at least 3 holders', { holders: 3, holderCountIsComplete: false }, null],
+  ['holder-count', 'at least 20 holders', { holders: 20, holderCountIsComplete: false }, null],
+  ['holder-count', 'at least 100 holders', { holders: 100, holderCountIsComplete: false }, 'pass'],
+
+  ['mint-age', 'unknown', {}, null],
+  ['mint-age', '2 hours old', { mintDate: daysAgo(2 / 24) }, 'fail'],
+  ['mint-age', '1 day old', { mintDate: daysAgo(1) }, 'warn'],
+  ['mint-age', '6 days old', { mintDate: daysAgo(6) }, 'warn'],
+  ['mint-age', '7 days old, as an ISO string', { mintDate: daysAgo(7).toISOString() }, 'pass'],
+
+  ['token-extensions', 'SPL Token mint', {}, null],
+  ['token-extensions', 'harmless extensions', { extensions: { types: ['metadataPointer'] } }, 'pass'],
+  ['token-extensions', 'zero transfer fee', {
+    extensions: {
+      types: ['transferFeeConfig'],
+      transferFee: { basisPoints: 0, maximumFee: '0', epoch: 1, configAuthority: null, withdrawAuthority: null },
+    },
+  }, 'pass'],
+  ['token-extensions', 'transfer fee', {
+    extensions: {
+      types: ['transferFeeConfig'],
+      transferFee: { basisPoints: 250, maximumFee: '1000', epoch: 1, configAuthority: null, withdrawAuthority: null },
+    },
+  }, 'fail'],
+  ['token-extensions', 'permanent delegate', { extensions: { types: ['permanentDelegate'], permanentDelegate: WALLET } }, 'fail'],
+  ['token-extensions', 'frozen by default', { extensions: { types: ['defaultAccountState'], defaultAccountState: 'frozen' } }, 'fail'],
+
+  ['impersonation', 'not checked', {}, null],
+  ['impersonation', 'verified', { verification: { status: 'verified', reasons: [] } }, 'pass'],
+  ['impersonation', 'unverified', { verification: { status: 'unverified', reasons: [] } }, 'pass'],
+  ['impersonation', 'impersonator', { verification: { status: 'impersonator', reasons: ['Reuses the USDC ticker'] } }, 'fail'],
+];
+
+describe('risk rules', () => {
+  it.each(cases)('%s: %s', (ruleId, _description, token, expected) => {
+    expect(evaluate(ruleId, token)?.status ?? null).toBe(expected);
+  });
+
+  it('has a case for every rule', () => {
+    expect(new Set(cases.map(([ruleId]) => ruleId))).toEqual(new Set(RISK_RULES.map(rule => rule.id)));
+  });
+
+  it('explains the transfer fee it found', () => {
+    const result = evaluate('token-extensions', {
+      extensions: {
+        types: ['transferFeeConfig'],
+        transferFee: { basisPoints: 250, maximumFee: '1000', epoch: 1, configAuthority: null, withdrawAuthority: null },
+      },
+    });
+    expect(result?.evidence).toBe('Transfer fee 2.50%');
+  });
+});
+
+describe('getRiskLevel', () => {
+  it.each([
+    [100, 'low'],
+    [80, 'low'],
+    [79, 'medium'],
+    [50, 'medium'],
+    [49, 'high'],
+    [0, 'high'],
+  ] as const)('scores %i as %s', (score, level) => {
+    expect(getRiskLevel(score)).toBe(level);
+  });
+});
+
+describe('assessTokenRisk', () => {
+  it('scores a token with no data as safe and lists every rule as skipped', () => {
+    const report = assessTokenRisk({}, NOW);
+    expect(report).toEqual({ score: 100, level: 'low', checks: [], skipped: RISK_RULES.map(rule => rule.id) });
+  });
+
+  it('deducts the full weight on fail and half on warn', () => {
+    const report = assessTokenRisk({
+      mintAuthority: WALLET, // fail, -30
+      freezeAuthority: null, // pass
+      holders: 50, // warn, -2.5
+      mintDate: daysAgo(3), // warn, -5
+    }, NOW);
+
+    expect(report.score).toBe(63);
+    expect(report.level).toBe('medium');
+    expect(report.checks.map(check => [check.id, check.status])).toEqual([
+      ['mint-authority', 'fail'],
+      ['freeze-authority', 'pass'],
+      ['holder-count', 'warn'],
+      ['mint-age', 'warn'],
+    ]);
+  });
+
+  it('never scores below zero', () => {
+    const report = assessTokenRisk({
+      mintAuthority: WALLET,
+      freezeAuthority: WALLET,
+      holderAnalytics: analytics(90, 99),
+      holders: 2,
+      mintDate: daysAgo(0),
+      extensions: { types: ['permanentDelegate'], permanentDelegate: WALLET },
+      verification: { status: 'impersonator', reasons: ['Reuses a verified logo'] },
+    }, NOW);
+
+    expect(report.score).toBe(0);
+    expect(report.level).toBe('high');
+    expect(report.checks.every(check => check.status === 'fail')).toBe(true);
+  });
+
+  it('runs the rules it is given', () => {
+    const report = assessTokenRisk({ mintAuthority: WALLET }, NOW, RISK_RULES.slice(0, 1));
+    expect(report.score).toBe(70);
+    expect(report.skipped).toEqual([]);
+  });
+});
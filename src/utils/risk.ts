@@ -0,0 +1,192 @@
+import type { TokenInfo } from './helius';
+import { getRiskyExtensions } from './token2022';
+
+export type RiskStatus = 'pass' | 'warn' | 'fail';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface RiskCheckResult {
+  id: string;
+  label: string;
+  status: RiskStatus;
+  // Human-readable facts the status is based on
+  evidence: string;
+  weight: number;
+}
+
+export interface RiskReport {
+  // 100 is the safest score, 0 the riskiest
+  score: number;
+  level: RiskLevel;
+  checks: RiskCheckResult[];
+  // Checks that could not run because the data they need was not resolved
+  skipped: string[];
+}
+
+// Token fields the rules read. mintDate may be a Date or an ISO string so the
+// rules also run on tokens that came back over JSON.
+export type RiskInput = Pick<
+  TokenInfo,
+  | 'mintAuthority'
+  | 'freezeAuthority'
+  | 'metadata'
+  | 'holderAnalytics'
+  | 'holders'
+  | 'holderCountIsComplete'
+  | 'extensions'
+  | 'verification'
+> & {
+  mintDate?: Date | string;
+};
+
+interface RiskRule {
+  id: string;
+  label: string;
+  // Points deducted from the score on fail; half on warn
+  weight: number;
+  // Returns null when the token lacks the data this rule needs
+  evaluate(token: RiskInput, now: Date): Omit<RiskCheckResult, 'id' | 'label' | 'weight'> | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RISK_RULES: RiskRule[] = [
+  {
+    id: 'mint-authority',
+    label: 'Mint authority',
+    weight: 30,
+    evaluate: ({ mintAuthority }) => {
+      if (mintAuthority === undefined) return null;
+      return mintAuthority === null
+        ? { status: 'pass', evidence: 'Mint authority is revoked; supply is fixed' }
+        : { status: 'fail', evidence: `Mint authority ${mintAuthority} can mint more tokens` };
+    },
+  },
+  {
+    id: 'freeze-authority',
+    label: 'Freeze authority',
+    weight: 25,
+    evaluate: ({ freezeAuthority }) => {
+      if (freezeAuthority === undefined) return null;
+      return freezeAuthority === null
+        ? { status: 'pass', evidence: 'Freeze authority is revoked' }
+        : { status: 'fail', evidence: `Freeze authority ${freezeAuthority} can freeze holder accounts` };
+    },
+  },
+  {
+    id: 'mutable-metadata',
+    label: 'Metadata mutability',
+    weight: 10,
+    evaluate: ({ metadata }) => {
+      if (metadata?.isMutable === undefined) return null;
+      return metadata.isMutable
+        ? {
+            status: 'warn',
+            evidence: metadata.updateAuthority
+              ? `Update authority ${metadata.updateAuthority} can change name, symbol and image`
+              : 'Metadata can still be changed',
+          }
+        : { status: 'pass', evidence: 'Metadata is immutable' };
+    },
+  },
+  {
+    id: 'holder-concentration',
+    label: 'Holder concentration',
+    weight: 20,
+    evaluate: ({ holderAnalytics }) => {
+      if (!holderAnalytics) return null;
+      const { top1, top10 } = holderAnalytics.concentration;
+      const evidence = `Top holder owns ${top1.toFixed(2)}%, top 10 own ${top10.toFixed(2)}% of supply`;
+      if (top1 >= 20 || top10 >= 50) return { status: 'fail', evidence };
+      if (top1 >= 10 || top10 >= 30) return { status: 'warn', evidence };
+      return { status: 'pass', evidence };
+    },
+  },
+  {
+    id: 'holder-count',
+    label: 'Holder count',
+    weight: 5,
+    evaluate: ({ holders, holderCountIsComplete }) => {
+      if (holders === undefined) return null;
+      // An incomplete count, such as owners among the largest accounts only,
+      // is a lower bound: it can show there are enough holders, never too few
+      if (holderCountIsComplete === false) {
+        return holders >= 100 ? { status: 'pass', evidence: `At least ${holders} holders` } : null;
+      }
+      const evidence = `${holders} holder${holders === 1 ? '' : 's'}`;
+      if (holders < 10) return { status: 'fail', evidence };
+      if (holders < 100) return { status: 'warn', evidence };
+      return { status: 'pass', evidence };
+    },
+  },
+  {
+    id: 'mint-age',
+    label: 'Token age',
+    weight: 10,
+    evaluate: ({ mintDate }, now) => {
+      if (!mintDate) return null;
+      const ageMs = now.getTime() - new Date(mintDate).getTime();
+      const days = ageMs / DAY_MS;
+      const evidence = days < 1
+        ? `Minted ${Math.max(0, Math.floor(ageMs / (60 * 60 * 1000)))} hours ago`
+        : `Minted ${Math.floor(days)} days ago`;
+      if (days < 1) return { status: 'fail', evidence };
+      if (days < 7) return { status: 'warn', evidence };
+      return { status: 'pass', evidence };
+    },
+  },
+  {
+    id: 'token-extensions',
+    label: 'Token-2022 extensions',
+    weight: 30,
+    evaluate: ({ extensions }) => {
+      if (!extensions) return null;
+      const risky = getRiskyExtensions(extensions);
+      return risky.length > 0
+        ? { status: 'fail', evidence: risky.join(', ') }
+        : { status: 'pass', evidence: 'No extensions that can tax, block or seize holdings' };
+    },
+  },
+  {
+    id: 'impersonation',
+    label: 'Impersonation',
+    weight: 40,
+    evaluate: ({ verification }) => {
+      if (!verification) return null;
+      if (verification.status === 'impersonator') {
+        return { status: 'fail', evidence: verification.reasons.join('; ') };
+      }
+      return verification.status === 'verified'
+        ? { status: 'pass', evidence: 'Listed on the verified token list' }
+        : { status: 'pass', evidence: 'Does not imitate a verified token' };
+    },
+  },
+];
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= 80) return 'low';
+  if (score >= 50) return 'medium';
+  return 'high';
+}
+
+// Run every rule against a token and combine the results into a score
+export function assessTokenRisk(token: RiskInput, now = new Date(), rules = RISK_RULES): RiskReport {
+  const checks: RiskCheckResult[] = [];
+  const skipped: string[] = [];
+  let score = 100;
+
+  for (const rule of rules) {
+    const result = rule.evaluate(token, now);
+    if (!result) {
+      skipped.push(rule.id);
+      continue;
+    }
+
+    checks.push({ id: rule.id, label: rule.label, weight: rule.weight, ...result });
+    if (result.status === 'fail') score -= rule.weight;
+    if (result.status === 'warn') score -= rule.weight / 2;
+  }
+
+  score = Math.max(0, Math.round(score));
+  return { score, level: getRiskLevel(score), checks, skipped };
+}
@@ -0,0 +1,67 @@
+import { Connection, ConnectionConfig, PublicKey } from '@solana/web3.js';
+import { fetchOffChainMetadata, OffChainMetadata } from './offchainMetadata';
+import type { TokenDataProvider } from './tokenDataProvider';
+
+export interface RpcProviderOptions {
+  name?: string;
+  // Replaces the global fetch for every HTTP request the connection makes
+  fetch?: ConnectionConfig['fetch'];
+  // Leave 429 handling to the fetch function instead of web3.js's own retries
+  disableRetryOnRateLimit?: boolean;
+  // Replaces the direct fetch of off-chain metadata documents
+  fetchOffChainMetadata?: (url: string) => Promise<OffChainMetadata | null>;
+}
+
+// Provider backed by any Solana JSON-RPC endpoint. DAS methods are not part
+// of the standard RPC API, so symbol search and holder counts are unavailable.
+export function createRpcProvider(endpoint: string, options: RpcProviderOptions = {}): TokenDataProvider {
+  const connection = new Connection(endpoint, {
+    commitment: 'confirmed',
+    fetch: options.fetch,
+    disableRetryOnRateLimit: options.disableRetryOnRateLimit,
+  });
+
+  return {
+    name: options.name ?? 'rpc',
+
+    getAccountInfo: address => connection.getAccountInfo(new PublicKey(address)),
+
+    getParsedAccountInfo: async address =>
+      (await connection.getParsedAccountInfo(new PublicKey(address))).value,
+
+    getMultipleParsedAccounts: async addresses =>
+      (await connection.getMultipleParsedAccounts(addresses.map(address => new PublicKey(address)))).value,
+
+    getSignaturesForAddress: (address, options) =>
+      connection.getSignaturesForAddress(new PublicKey(address), options),
+
+    getParsedTransaction: signature =>
+      connection.getParsedTransaction(signature, {
+        maxSupportedTransactionVersion: 0,
+        commitment: 'confirmed',
+      }),
+
+    getTokenSupply: async mint => (await connection.getTokenSupply(new PublicKey(mint))).value,
+
+    getTokenLargestAccounts: async mint => (await connection.getTokenLargestAccounts(new PublicKey(mint))).value,
+
+    getProgramAccounts: async (programId, filters) =>
+      (await connection.getProgramAccounts(new PublicKey(programId), { filters }))
+        .map(({ pubkey, account }) => ({ pubkey: pubkey.toBase58(), account })),
+
+    fetchOffChainMetadata: options.fetchOffChainMetadata ?? fetchOffChainMetadata,
+
+    getAssetsBySymbol: async () => null,
+
+    getTokenAccounts: async () => null,
+
+    onLogs(programId, callback) {
+      const id = connection.onLogs(new PublicKey(programId), logs => callback(logs), 'confirmed');
+      return () => {
+        connection.removeOnLogsListener(id).catch(() => {
+          // Socket may already be closed
+        });
+      };
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import type { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { createFixtureProvider } from './fixtureProvider';
+import { getTokenDetails, resolveMintGenesis, SearchResult, searchTokens, TokenInfo } from './helius';
+import { createHeliusProvider } from './heliusProvider';
+import type { OffChainMetadata } from './offchainMetadata';
+import {
+  createRecording,
+  createRecordingFetch,
+  createRecordingMetadataFetch,
+  createReplayMetadataFetch,
+  RpcRecording,
+} from './rpcRecording';
+import { createReplayProvider } from './tokenDataProvider';
+import { saveMintGenesis, switchToInMemoryTokenIndex } from './tokenIndex';
+
+// Records a search and a token detail lookup against a scripted mainnet,
+// then replays them with the network gone
+
+const MINT = new PublicKey(Buffer.alloc(32, 7)).toBase58();
+const HOLDERS = [new PublicKey(Buffer.alloc(32, 8)).toBase58(), new PublicKey(Buffer.alloc(32, 9)).toBase58()];
+const METADATA_URL = 'https://metadata.example.com/xyz.json';
+
+const DOCUMENT: OffChainMetadata = {
+  image: 'https://metadata.example.com/xyz.png',
+  description: 'The XYZ token',
+  links: { website: 'https://xyz.example.com/', twitter: 'https://x.com/xyz' },
+};
+
+const context = { slot: 250_000_000 };
+
+const mintAccount = {
+  executable: false,
+  lamports: 4_000_000,
+  owner: TOKEN_2022_PROGRAM_ID.toBase58(),
+  rentEpoch: 0,
+  space: 400,
+  data: {
+    program: 'spl-token-2022',
+    space: 400,
+    parsed: {
+      type: 'mint',
+      info: {
+        decimals: 6,
+        supply: '1000000000000',
+        mintAuthority: null,
+        freezeAuthority: null,
+        isInitialized: true,
+        extensions: [{
+          extension: 'tokenMetadata',
+          state: { name: 'XYZ Token', symbol: 'XYZ', uri: METADATA_URL, mint: MINT, additionalMetadata: [] },
+        }],
+      },
+    },
+  },
+};
+
+const asset = {
+  interface: 'FungibleToken',
+  id: MINT,
+  content: { metadata: { name: 'XYZ Token', symbol: 'XYZ' }, json_uri: METADATA_URL },
+  token_info: { supply: 1_000_000_000_000, decimals: 6, token_program: TOKEN_2022_PROGRAM_ID.toBase58() },
+};
+
+// Just enough of mainnet for both lookups; anything else is a test failure
+function answer(method: string, params: unknown[]): unknown {
+  switch (method) {
+    case 'getAssetsByGroup':
+      return { total: 1, limit: 100, page: 1, items: [asset] };
+    case 'getTokenAccounts':
+      return {
+        total: 2,
+        limit: 1000,
+        page: 1,
+        token_accounts: HOLDERS.map((owner, index) => ({ address: owner, mint: MINT, owner, amount: 1000 * (index + 1) })),
+      };
+    case 'getSignaturesForAddress':
+    case 'getProgramAccounts':
+      return [];
+    case 'getAccountInfo':
+      return { context, value: null };
+    case 'getMultipleAccounts':
+      return { context, value: (params[0] as string[]).map(address => address === MINT ? mintAccount : null) };
+    case 'getTokenSupply':
+      return { context, value: { amount: '1000000000000', decimals: 6, uiAmount: 1_000_000, uiAmountString: '1000000' } };
+    case 'getTokenLargestAccounts':
+      return { context, value: [] };
+    default:
+      throw new Error(`Unexpected ${method} request`);
+  }
+}
+
+const mainnet: typeof fetch = async (_input, init) => {
+  const { id, method, params } = JSON.parse(String(init?.body));
+  return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: answer(method, params ?? []) }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+// Drop the request usage, which depends on the scheduler rather than the data
+const withoutUsage = (result: SearchResult) => ({ ...result, usage: undefined });
+
+let recording: RpcRecording;
+let recordedSearch: ReturnType<typeof withoutUsage>;
+let recordedDetails: TokenInfo | null;
+
+beforeAll(async () => {
+  // Results carry timestamps
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+
+  switchToInMemoryTokenIndex();
+  const live = createRecording('helius');
+  const provider = createHeliusProvider('test', {
+    fetch: createRecordingFetch(live, mainnet),
+    fetchOffChainMetadata: createRecordingMetadataFetch(live, async url => (url === METADATA_URL ? DOCUMENT : null)),
+  });
+
+  recordedSearch = withoutUsage(await searchTokens('XYZ', { provider }));
+  recordedDetails = await getTokenDetails(MINT, provider);
+  // As saved to and loaded from a file
+  recording = JSON.parse(JSON.stringify(live));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe('RPC replay', () => {
+  // As the replay wiring does, so nothing stored by other tests leaks in
+  beforeEach(() => {
+    switchToInMemoryTokenIndex();
+  });
+
+  it('records the off-chain metadata documents', () => {
+    expect(recording.offChainMetadata).toEqual({ [METADATA_URL]: DOCUMENT });
+  });
+
+  it('replays a search', async () => {
+    const replayed = withoutUsage(await searchTokens('XYZ', { provider: createReplayProvider(recording) }));
+
+    expect(replayed).toEqual(recordedSearch);
+    expect(replayed.tokens).toHaveLength(1);
+    expect(replayed.tokens[0]).toMatchObject({
+      address: MINT,
+      symbol: 'XYZ',
+      holders: 2,
+      description: 'The XYZ token',
+      links: DOCUMENT.links,
+    });
+  });
+
+  it('replays token details', async () => {
+    const replayed = await getTokenDetails(MINT, createReplayProvider(recording));
+
+    expect(JSON.parse(JSON.stringify(replayed))).toEqual(JSON.parse(JSON.stringify(recordedDetails)));
+    expect(replayed).toMatchObject({ name: 'XYZ Token', image: DOCUMENT.image, holders: 2 });
+  });
+
+  it('ignores geneses stored in the index before the replay', async () => {
+    saveMintGenesis(MINT, {
+      signature: '5'.repeat(88),
+      slot: 1,
+      blockTime: 1_700_000_000,
+      deployer: HOLDERS[0],
+      initialMintAuthority: null,
+    });
+
+    // As RPC_RECORDING_MODE=replay does before building the provider
+    switchToInMemoryTokenIndex();
+    const replayed = await getTokenDetails(MINT, createReplayProvider(recording));
+    expect(replayed?.creator).toBeUndefined();
+  });
+
+  it('ignores geneses another provider resolved in the same process', async () => {
+    const signature = '4'.repeat(88);
+    const initialization = {
+      slot: 1,
+      blockTime: 1_700_000_000,
+      meta: { err: null, innerInstructions: [] },
+      transaction: {
+        signatures: [signature],
+        message: {
+          accountKeys: [{ pubkey: new PublicKey(HOLDERS[0]), signer: true, writable: true }],
+          instructions: [{
+            program: 'spl-token-2022',
+            programId: TOKEN_2022_PROGRAM_ID,
+            parsed: { type: 'initializeMint2', info: { mint: MINT, decimals: 6, mintAuthority: HOLDERS[0] } },
+          }],
+        },
+      },
+    } as unknown as ParsedTransactionWithMeta;
+    const other = createFixtureProvider({
+      signatures: { [MINT]: [{ signature, slot: 1, blockTime: 1_700_000_000, err: null, memo: null }] },
+      transactions: { [signature]: initialization },
+    });
+    expect(await resolveMintGenesis(MINT, 1, other)).toMatchObject({ signature, deployer: HOLDERS[0] });
+
+    // Only the in-memory copy is left
+    switchToInMemoryTokenIndex();
+    const replayed = await getTokenDetails(MINT, createReplayProvider(recording));
+    expect(replayed?.creator).toBeUndefined();
+  });
+
+  it('serves no metadata for documents it did not record', async () => {
+    const fetchMetadata = createReplayMetadataFetch(recording);
+
+    expect(await fetchMetadata(METADATA_URL)).toEqual(DOCUMENT);
+    expect(await fetchMetadata('https://metadata.example.com/other.json')).toBeNull();
+  });
+});
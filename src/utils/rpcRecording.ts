@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import type { OffChainMetadata } from './offchainMetadata';
+import type { TokenDataProviderKind } from './tokenDataProvider';
+
+// Record-and-replay of JSON-RPC traffic. Both the web3.js Connection and the
+// DAS calls go through the fetch function given to a provider, so wrapping it
+// captures every request helius.ts makes. Off-chain metadata documents are
+// fetched from other hosts, so they are recorded separately, per URL. Log
+// subscriptions run over a websocket and are not recorded.
+
+export type RpcRecordingMode = 'record' | 'replay';
+
+export interface RecordedExchange {
+  method: string;
+  params: unknown;
+  // Response body as received, minus the request id
+  response: unknown;
+}
+
+export interface RpcRecording {
+  // Provider the traffic was recorded from, so replay speaks the same API
+  provider: TokenDataProviderKind;
+  recordedAt: string;
+  exchanges: RecordedExchange[];
+  // Normalized off-chain metadata per URL, null where it could not be read.
+  // Missing from recordings made before documents were recorded.
+  offChainMetadata?: Record<string, OffChainMetadata | null>;
+}
+
+interface JsonRpcRequest {
+  id?: unknown;
+  method: string;
+  params?: unknown;
+}
+
+// Requests are matched on method and params; ids differ between runs
+function exchangeKey(method: string, params: unknown): string {
+  return JSON.stringify([method, params ?? null]);
+}
+
+function parseRequestBody(init?: RequestInit): JsonRpcRequest | null {
+  if (typeof init?.body !== 'string') return null;
+  try {
+    const body = JSON.parse(init.body);
+    return body && typeof body.method === 'string' ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createRecording(provider: TokenDataProviderKind): RpcRecording {
+  return { provider, recordedAt: new Date().toISOString(), exchanges: [], offChainMetadata: {} };
+}
+
+// Pass requests through to the network and append each JSON-RPC exchange to
+// the recording. onRecord runs after every exchange, e.g. to save the file.
+export function createRecordingFetch(
+  recording: RpcRecording,
+  baseFetch: typeof fetch = fetch,
+  onRecord?: (recording: RpcRecording) => void
+): typeof fetch {
+  return async (input, init) => {
+    const response = await baseFetch(input, init);
+    const request = parseRequestBody(init);
+    if (!request || !response.ok) return response;
+
+    const body = await response.clone().json().catch(() => null);
+    if (body && typeof body === 'object') {
+      const responseBody = { ...body as Record<string, unknown> };
+      delete responseBody.id;
+      recording.exchanges.push({ method: request.method, params: request.params ?? null, response: responseBody });
+      onRecord?.(recording);
+    }
+    return response;
+  };
+}
+
+// Fetch off-chain metadata with baseFetch and keep each document, or its
+// absence, in the recording
+export function createRecordingMetadataFetch(
+  recording: RpcRecording,
+  baseFetch: (url: string) => Promise<OffChainMetadata | null>,
+  onRecord?: (recording: RpcRecording) => void
+): (url: string) => Promise<OffChainMetadata | null> {
+  return async url => {
+    const metadata = await baseFetch(url);
+    recording.offChainMetadata = { ...recording.offChainMetadata, [url]: metadata };
+    onRecord?.(recording);
+    return metadata;
+  };
+}
+
+// Serve recorded off-chain metadata. URLs missing from the recording resolve
+// to null, like a host that cannot be reached.
+export function createReplayMetadataFetch(recording: RpcRecording): (url: string) => Promise<OffChainMetadata | null> {
+  return async url => recording.offChainMetadata?.[url] ?? null;
+}
+
+// Serve recorded responses instead of touching the network. Repeated
+// identical requests get the recorded responses in order, then the last one
+// again, so a replay is deterministic however often a call is retried.
+export function createReplayFetch(recording: RpcRecording): typeof fetch {
+  const queues = new Map<string, RecordedExchange[]>();
+  for (const exchange of recording.exchanges) {
+    const key = exchangeKey(exchange.method, exchange.params);
+    queues.set(key, [...(queues.get(key) ?? []), exchange]);
+  }
+
+  return async (_input, init) => {
+    const request = parseRequestBody(init);
+    if (!request) {
+      throw new Error('Replay only supports JSON-RPC POST requests');
+    }
+
+    const queue = queues.get(exchangeKey(request.method, request.params));
+    if (!queue || queue.length === 0) {
+      throw new Error(`No recorded response for ${request.method} ${JSON.stringify(request.params ?? null)}`);
+    }
+    const exchange = queue.length > 1 ? queue.shift()! : queue[0];
+
+    return new Response(JSON.stringify({ ...(exchange.response as object), id: request.id }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+export function loadRecording(file: string): RpcRecording {
+  const recording = JSON.parse(fs.readFileSync(file, 'utf8')) as RpcRecording;
+  if (!Array.isArray(recording?.exchanges)) {
+    throw new Error(`${file} is not an RPC recording`);
+  }
+  return recording;
+}
+
+export function saveRecording(file: string, recording: RpcRecording) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(recording, null, 2));
+}
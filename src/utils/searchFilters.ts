@@ -0,0 +1,237 @@
+import type { TokenInfo } from './helius';
+
+// Filters and sort orders for search results. They run on the server for
+// every search path (index, DAS and transaction scan) and again in the page
+// over all loaded results. Query parameter names are shared by /api/search
+// and the page URL.
+
+export type SearchSort = 'relevance' | 'newest' | 'oldest' | 'supply' | 'holders';
+
+export const SEARCH_SORTS: Array<{ value: SearchSort; label: string }> = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'supply', label: 'Supply' },
+  { value: 'holders', label: 'Holders' },
+];
+
+export type TokenKindFilter = 'fungible' | 'nft';
+
+export type AuthorityFilter = 'revoked' | 'mint-revoked' | 'freeze-revoked' | 'active';
+
+export const AUTHORITY_FILTERS: Array<{ value: AuthorityFilter; label: string }> = [
+  { value: 'revoked', label: 'All revoked' },
+  { value: 'mint-revoked', label: 'Mint revoked' },
+  { value: 'freeze-revoked', label: 'Freeze revoked' },
+  { value: 'active', label: 'Has active authority' },
+];
+
+export const SOURCE_FILTERS = ['helius-das', 'on-chain'];
+
+// A filter only excludes tokens whose value is known not to match; tokens
+// missing the value it needs are excluded too, except for hideUnnamed
+export interface SearchFilters {
+  // Mint date range as YYYY-MM-DD, both ends inclusive
+  mintedAfter?: string;
+  mintedBefore?: string;
+  source?: string;
+  // Supply range in whole tokens, i.e. after dividing by 10^decimals
+  minSupply?: number;
+  maxSupply?: number;
+  kind?: TokenKindFilter;
+  authority?: AuthorityFilter;
+  hideUnnamed?: boolean;
+}
+
+// Token fields filters and sorts read. mintDate may be a Date or an ISO
+// string so the same code runs on tokens that came back over JSON.
+export type FilterableToken = Pick<
+  TokenInfo,
+  'name' | 'symbol' | 'source' | 'supply' | 'decimals' | 'mintAuthority' | 'freezeAuthority' | 'holders' | 'metadata' | 'match'
+> & {
+  mintDate?: Date | string;
+};
+
+const NON_FUNGIBLE_STANDARDS = [
+  'NonFungible',
+  'NonFungibleEdition',
+  'ProgrammableNonFungible',
+  'ProgrammableNonFungibleEdition',
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function mintTime(token: FilterableToken): number | null {
+  if (!token.mintDate) return null;
+  const time = new Date(token.mintDate).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+// Supply in whole tokens, or null when supply or decimals are unknown
+export function getWholeSupply(token: FilterableToken): number | null {
+  if (token.supply === undefined || token.decimals === undefined) return null;
+  const supply = Number(token.supply) / 10 ** token.decimals;
+  return Number.isFinite(supply) ? supply : null;
+}
+
+export function getTokenKind(token: FilterableToken): TokenKindFilter | null {
+  const standard = token.metadata?.tokenStandard;
+  if (standard) return NON_FUNGIBLE_STANDARDS.includes(standard) ? 'nft' : 'fungible';
+  if (token.decimals === undefined || token.supply === undefined) return null;
+  return token.decimals === 0 && token.supply === '1' ? 'nft' : 'fungible';
+}
+
+function matchesAuthority(token: FilterableToken, filter: AuthorityFilter): boolean {
+  const { mintAuthority, freezeAuthority } = token;
+  switch (filter) {
+    case 'revoked':
+      return mintAuthority === null && freezeAuthority === null;
+    case 'mint-revoked':
+      return mintAuthority === null;
+    case 'freeze-revoked':
+      return freezeAuthority === null;
+    case 'active':
+      return Boolean(mintAuthority || freezeAuthority);
+  }
+}
+
+function isUnnamed(token: FilterableToken): boolean {
+  return !token.name || token.name === 'Unknown' || !token.symbol || token.symbol === 'Unknown';
+}
+
+// The filters that do not need a mint date. Search applies these before
+// resolving geneses and the date filters after.
+export function withoutDateFilters(filters: SearchFilters): SearchFilters {
+  return { ...filters, mintedAfter: undefined, mintedBefore: undefined };
+}
+
+export function matchesSearchFilters(token: FilterableToken, filters: SearchFilters): boolean {
+  if (filters.mintedAfter || filters.mintedBefore) {
+    const time = mintTime(token);
+    if (time === null) return false;
+    if (filters.mintedAfter && time < Date.parse(filters.mintedAfter)) return false;
+    if (filters.mintedBefore && time >= Date.parse(filters.mintedBefore) + DAY_MS) return false;
+  }
+
+  if (filters.source && token.source !== filters.source) return false;
+
+  if (filters.minSupply !== undefined || filters.maxSupply !== undefined) {
+    const supply = getWholeSupply(token);
+    if (supply === null) return false;
+    if (filters.minSupply !== undefined && supply < filters.minSupply) return false;
+    if (filters.maxSupply !== undefined && supply > filters.maxSupply) return false;
+  }
+
+  if (filters.kind && getTokenKind(token) !== filters.kind) return false;
+  if (filters.authority && !matchesAuthority(token, filters.authority)) return false;
+  if (filters.hideUnnamed && isUnnamed(token)) return false;
+
+  return true;
+}
+
+// Unknown values sort last whichever way the key runs
+function compareKnown(a: number | null, b: number | null, descending: boolean): number {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return descending ? b - a : a - b;
+}
+
+function compareTokens(a: FilterableToken, b: FilterableToken, sort: SearchSort): number {
+  switch (sort) {
+    case 'relevance': {
+      const scoreDifference = (b.match?.score ?? 0) - (a.match?.score ?? 0);
+      return scoreDifference !== 0 ? scoreDifference : compareKnown(mintTime(a), mintTime(b), true);
+    }
+    case 'newest':
+      return compareKnown(mintTime(a), mintTime(b), true);
+    case 'oldest':
+      return compareKnown(mintTime(a), mintTime(b), false);
+    case 'supply':
+      return compareKnown(getWholeSupply(a), getWholeSupply(b), true);
+    case 'holders':
+      return compareKnown(a.holders ?? null, b.holders ?? null, true);
+  }
+}
+
+export function sortTokens<T extends FilterableToken>(tokens: T[], sort: SearchSort = 'relevance'): T[] {
+  return [...tokens].sort((a, b) => compareTokens(a, b, sort));
+}
+
+export function countActiveFilters(filters: SearchFilters): number {
+  return Object.values(filters).filter(value => value !== undefined && value !== false && value !== '').length;
+}
+
+function parseNumber(value: string | null): number | undefined | null {
+  if (value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+// Read filters and sort from a query string. Unknown values are an error so
+// the API can reject them; the page falls back to no filters instead.
+export function parseSearchFilters(
+  params: Pick<URLSearchParams, 'get'>
+): { filters: SearchFilters; sort: SearchSort } | { error: string } {
+  const filters: SearchFilters = {};
+
+  for (const [param, key] of [['from', 'mintedAfter'], ['to', 'mintedBefore']] as const) {
+    const value = params.get(param);
+    if (!value) continue;
+    if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+      return { error: `${param} must be a date in YYYY-MM-DD format` };
+    }
+    filters[key] = value;
+  }
+
+  const source = params.get('source');
+  if (source) {
+    if (!SOURCE_FILTERS.includes(source)) return { error: `source must be one of ${SOURCE_FILTERS.join(', ')}` };
+    filters.source = source;
+  }
+
+  for (const key of ['minSupply', 'maxSupply'] as const) {
+    const value = parseNumber(params.get(key));
+    if (value === null) return { error: `${key} must be a non-negative number` };
+    if (value !== undefined) filters[key] = value;
+  }
+
+  const kind = params.get('kind');
+  if (kind) {
+    if (kind !== 'fungible' && kind !== 'nft') return { error: 'kind must be one of fungible, nft' };
+    filters.kind = kind;
+  }
+
+  const authority = params.get('authority');
+  if (authority) {
+    if (!AUTHORITY_FILTERS.some(option => option.value === authority)) {
+      return { error: `authority must be one of ${AUTHORITY_FILTERS.map(option => option.value).join(', ')}` };
+    }
+    filters.authority = authority as AuthorityFilter;
+  }
+
+  if (params.get('hideUnnamed') === '1' || params.get('hideUnnamed') === 'true') {
+    filters.hideUnnamed = true;
+  }
+
+  const sort = params.get('sort') || 'relevance';
+  if (!SEARCH_SORTS.some(option => option.value === sort)) {
+    return { error: `sort must be one of ${SEARCH_SORTS.map(option => option.value).join(', ')}` };
+  }
+
+  return { filters, sort: sort as SearchSort };
+}
+
+// Write filters and sort into a query string, leaving defaults out
+export function writeSearchFilters(params: URLSearchParams, filters: SearchFilters, sort: SearchSort = 'relevance') {
+  if (filters.mintedAfter) params.set('from', filters.mintedAfter);
+  if (filters.mintedBefore) params.set('to', filters.mintedBefore);
+  if (filters.source) params.set('source', filters.source);
+  if (filters.minSupply !== undefined) params.set('minSupply', String(filters.minSupply));
+  if (filters.maxSupply !== undefined) params.set('maxSupply', String(filters.maxSupply));
+  if (filters.kind) params.set('kind', filters.kind);
+  if (filters.authority) params.set('authority', filters.authority);
+  if (filters.hideUnnamed) params.set('hideUnnamed', '1');
+  if (sort !== 'relevance') params.set('sort', sort);
+}
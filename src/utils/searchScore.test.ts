@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MIN_SCORE, MatchField, MatchKind, scoreTokenMatch } from './searchScore';
+
+const ADDRESS = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function token(symbol: string, name: string) {
+  return { symbol, name, address: ADDRESS };
+}
+
+// Each row: query, token symbol and name, expected kind, field and score of the best match
+const cases: Array<[string, string, string, MatchKind, MatchField, number]> = [
+  ['bonk', 'BONK', 'Bonk', 'exact', 'symbol', 100],
+  // 80 * (0.85 + 0.15 * 4/7)
+  ['bonk', 'BONKERS', 'Bonkers', 'prefix', 'symbol', 75],
+  // 70 * 0.9, a whole word of the name
+  ['wif', 'DWH', 'dog wif hat', 'word', 'name', 63],
+  // 55 * (0.85 + 0.15 * 3/6)
+  ['cat', 'POPCAT', 'Popcat', 'substring', 'symbol', 51],
+  // One typo: 45
+  ['bonl', 'BONK', 'Bonk Inu', 'fuzzy', 'symbol', 45],
+  // Two typos: 45 * 0.75 * 0.9
+  ['dogwifaht', 'WIF', 'dogwifhat', 'fuzzy', 'name', 30],
+  // Six of nine characters: 50 * 6/9 * 0.9, right at DEFAULT_MIN_SCORE
+  ['dgwfht', 'WIF', 'dogwifhat', 'subsequence', 'name', 30],
+  // Three of eleven characters: 50 * 3/11 * 0.9
+  ['bnk', 'NET', 'big network', 'subsequence', 'name', 12],
+  // 80 * 0.8, in any case
+  [ADDRESS.slice(0, 8).toLowerCase(), 'XYZ', 'Some Token', 'prefix', 'address', 64],
+];
+
+describe('scoreTokenMatch', () => {
+  it.each(cases)('%s in %s / %s', (query, symbol, name, kind, field, score) => {
+    expect(scoreTokenMatch(query, token(symbol, name))).toMatchObject({ kind, field, score });
+  });
+
+  it('keeps dense subsequences and drops scattered ones', () => {
+    expect(scoreTokenMatch('dgwfht', token('WIF', 'dogwifhat'))?.score).toBeGreaterThanOrEqual(DEFAULT_MIN_SCORE);
+    expect(scoreTokenMatch('bnk', token('NET', 'big network'))?.score).toBeLessThan(DEFAULT_MIN_SCORE);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(scoreTokenMatch('zzz', token('BONK', 'Bonk'))).toBeNull();
+    expect(scoreTokenMatch('  ', token('BONK', 'Bonk'))).toBeNull();
+  });
+});
@@ -0,0 +1,247 @@
+// Relevance scoring for token search results
+
+export type MatchField = 'symbol' | 'name' | 'address';
+
+export type MatchKind = 'exact' | 'prefix' | 'word' | 'substring' | 'fuzzy' | 'subsequence';
+
+// Half-open character range [start, end) of a matched span
+export interface MatchSpan {
+  start: number;
+  end: number;
+}
+
+export interface SearchMatch {
+  // 0-100, higher is more relevant
+  score: number;
+  // Field and kind of the best-scoring match
+  field: MatchField;
+  kind: MatchKind;
+  reason: string;
+  // Matched spans in every field that matched, for highlighting
+  highlights: Partial<Record<MatchField, MatchSpan[]>>;
+}
+
+// Results scoring below this are dropped from search
+export const DEFAULT_MIN_SCORE = 30;
+
+// Base points per kind of match before the field weight is applied. A
+// subsequence is never contiguous, so it scores well below its base: dense
+// ones ("dgwfht" in "dogwifhat" scores 30 as a name) clear DEFAULT_MIN_SCORE
+// and scattered ones do not.
+const KIND_SCORES: Record<MatchKind, number> = {
+  exact: 100,
+  prefix: 80,
+  word: 70,
+  substring: 55,
+  fuzzy: 45,
+  subsequence: 50,
+};
+
+// A ticker match says more than a name match; address matches only count
+// when the query is clearly an address
+const FIELD_WEIGHTS: Record<MatchField, number> = {
+  symbol: 1,
+  name: 0.9,
+  address: 0.8,
+};
+
+const KIND_LABELS: Record<MatchKind, string> = {
+  exact: 'Exact',
+  prefix: 'Prefix',
+  word: 'Word',
+  substring: 'Partial',
+  fuzzy: 'Close',
+  subsequence: 'Loose',
+};
+
+interface FieldMatch {
+  kind: MatchKind;
+  // 0-1 scale applied to the kind's base score
+  strength: number;
+  spans: MatchSpan[];
+}
+
+interface Word {
+  text: string;
+  start: number;
+}
+
+function splitWords(value: string): Word[] {
+  const words: Word[] = [];
+  for (const match of value.matchAll(/[^\s_-]+/g)) {
+    words.push({ text: match[0], start: match.index ?? 0 });
+  }
+  return words;
+}
+
+// Levenshtein distance, giving up early once it exceeds max
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Merge adjacent single-character spans into runs
+function mergeSpans(spans: MatchSpan[]): MatchSpan[] {
+  const merged: MatchSpan[] = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+function matchWords(query: string, value: string): FieldMatch | null {
+  const queryWords = splitWords(query).map(word => word.text);
+  const valueWords = splitWords(value);
+  if (queryWords.length === 0 || (valueWords.length < 2 && queryWords.length < 2)) return null;
+
+  // Every query word must match a whole word, or the start of one
+  const spans: MatchSpan[] = [];
+  let exactWords = 0;
+  for (const queryWord of queryWords) {
+    const word = valueWords.find(candidate => candidate.text.startsWith(queryWord));
+    if (!word) return null;
+    if (word.text === queryWord) exactWords++;
+    spans.push({ start: word.start, end: word.start + queryWord.length });
+  }
+
+  return { kind: 'word', strength: 0.85 + 0.15 * (exactWords / queryWords.length), spans: mergeSpans(spans) };
+}
+
+function matchFuzzy(query: string, value: string): FieldMatch | null {
+  if (query.length < 3) return null;
+
+  // One typo for short queries, two for longer ones
+  const maxDistance = query.length <= 4 ? 1 : 2;
+  const candidates = [{ text: value, start: 0 }, ...splitWords(value)];
+
+  let best: { distance: number; word: Word } | null = null;
+  for (const word of candidates) {
+    const distance = editDistance(query, word.text, maxDistance);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { distance, word };
+    }
+  }
+  if (!best) return null;
+
+  return {
+    kind: 'fuzzy',
+    strength: 1 - (best.distance - 1) * 0.25,
+    spans: [{ start: best.word.start, end: best.word.start + best.word.text.length }],
+  };
+}
+
+function matchSubsequence(query: string, value: string): FieldMatch | null {
+  if (query.length < 2) return null;
+
+  const spans: MatchSpan[] = [];
+  let position = 0;
+  for (const char of query) {
+    if (/[\s_-]/.test(char)) continue;
+    const index = value.indexOf(char, position);
+    if (index === -1) return null;
+    spans.push({ start: index, end: index + 1 });
+    position = index + 1;
+  }
+  if (spans.length === 0) return null;
+
+  // Denser matches score higher: "bnk" in "bonk" beats "bnk" in "big network"
+  const extent = spans[spans.length - 1].end - spans[0].start;
+  return { kind: 'subsequence', strength: spans.length / extent, spans: mergeSpans(spans) };
+}
+
+// Best match of a lowercase query against one lowercase field value
+function matchField(query: string, value: string, field: MatchField): FieldMatch | null {
+  if (!value) return null;
+
+  if (value === query) return { kind: 'exact', strength: 1, spans: [{ start: 0, end: value.length }] };
+
+  // Addresses are random base58: only exact, prefix and long substring
+  // matches mean anything
+  if (field === 'address') {
+    if (query.length >= 4 && value.startsWith(query)) {
+      return { kind: 'prefix', strength: 1, spans: [{ start: 0, end: query.length }] };
+    }
+    const index = query.length > 10 ? value.indexOf(query) : -1;
+    return index === -1 ? null : { kind: 'substring', strength: 1, spans: [{ start: index, end: index + query.length }] };
+  }
+
+  if (value.startsWith(query)) {
+    // Longer remainders are weaker prefix matches: "bonk" -> "bonkers" beats "bonkinutalongname"
+    return {
+      kind: 'prefix',
+      strength: 0.85 + 0.15 * (query.length / value.length),
+      spans: [{ start: 0, end: query.length }],
+    };
+  }
+
+  const words = matchWords(query, value);
+  if (words) return words;
+
+  const index = value.indexOf(query);
+  if (index !== -1) {
+    return {
+      kind: 'substring',
+      strength: 0.85 + 0.15 * (query.length / value.length),
+      spans: [{ start: index, end: index + query.length }],
+    };
+  }
+
+  return matchFuzzy(query, value) ?? matchSubsequence(query, value);
+}
+
+// Score a token against a search query. Returns null when nothing matches.
+export function scoreTokenMatch(
+  query: string,
+  token: { name: string; symbol: string; address: string }
+): SearchMatch | null {
+  const normalized = query.toLowerCase().trim();
+  if (!normalized) return null;
+
+  const fields: Array<[MatchField, string]> = [
+    // Not trimmed, so span offsets line up with the displayed text
+    ['symbol', token.symbol.toLowerCase()],
+    ['name', token.name.toLowerCase()],
+    // Addresses are case-sensitive base58, but users paste them in any case
+    ['address', token.address.toLowerCase()],
+  ];
+
+  let best: SearchMatch | null = null;
+  const highlights: SearchMatch['highlights'] = {};
+
+  for (const [field, value] of fields) {
+    const match = matchField(normalized, value, field);
+    if (!match) continue;
+
+    highlights[field] = match.spans;
+    const score = Math.round(KIND_SCORES[match.kind] * match.strength * FIELD_WEIGHTS[field]);
+    if (!best || score > best.score) {
+      best = {
+        score,
+        field,
+        kind: match.kind,
+        reason: `${KIND_LABELS[match.kind]} ${field} match`,
+        highlights,
+      };
+    }
+  }
+
+  return best;
+}
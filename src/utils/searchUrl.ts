@@ -0,0 +1,46 @@
+import type { SearchRequestOptions } from './api';
+import { parseSearchFilters, writeSearchFilters } from './searchFilters';
+
+export type SearchMode = 'token' | 'creator';
+
+// A search as it appears in the address bar, e.g. /?q=bonk&minScore=50.
+// Parameter names match /api/search so a page URL maps onto an API request.
+export interface SearchUrlState extends SearchRequestOptions {
+  mode: SearchMode;
+  query: string;
+}
+
+export function parseSearchUrl(params: Pick<URLSearchParams, 'get'>): SearchUrlState {
+  const minScore = Number(params.get('minScore') ?? NaN);
+  // A hand-edited URL with a bad filter loads without filters
+  const filtered = parseSearchFilters(params);
+  const { filters, sort } = 'error' in filtered ? { filters: {}, sort: undefined } : filtered;
+  return {
+    mode: params.get('mode') === 'creator' ? 'creator' : 'token',
+    query: params.get('q')?.trim() ?? '',
+    minScore: Number.isFinite(minScore) && minScore >= 0 && minScore <= 100 ? minScore : undefined,
+    cursor: params.get('cursor') || undefined,
+    filters,
+    sort,
+  };
+}
+
+// Query string for a search, without the leading "?". Defaults are left out so
+// equal searches always produce the same string.
+export function toSearchUrlParams(state: SearchUrlState): string {
+  const params = new URLSearchParams();
+  if (state.query) params.set('q', state.query);
+  if (state.mode !== 'token') params.set('mode', state.mode);
+  // Creator lookups have no relevance threshold, filters or pages
+  if (state.mode === 'token') {
+    if (state.minScore !== undefined) params.set('minScore', String(state.minScore));
+    writeSearchFilters(params, state.filters ?? {}, state.sort);
+    if (state.cursor) params.set('cursor', state.cursor);
+  }
+  return params.toString();
+}
+
+export function buildSearchUrl(state: SearchUrlState): string {
+  const params = toSearchUrlParams(state);
+  return params ? `/?${params}` : '/';
+}
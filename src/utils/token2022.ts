@@ -0,0 +1,147 @@
+import type { MetaplexMetadata } from './metaplex';
+
+// Token-2022 mint extensions as returned by the RPC jsonParsed encoding
+export interface ParsedMintExtension {
+  extension: string;
+  state?: Record<string, unknown>;
+}
+
+export interface TransferFeeExtension {
+  basisPoints: number;
+  maximumFee: string;
+  epoch: number;
+  configAuthority: string | null;
+  withdrawAuthority: string | null;
+}
+
+export interface TransferHookExtension {
+  programId: string | null;
+  authority: string | null;
+}
+
+export interface MetadataPointerExtension {
+  metadataAddress: string | null;
+  authority: string | null;
+}
+
+// Extensions we surface on TokenInfo. `types` lists every extension present
+// on the mint, including ones without a dedicated field.
+export interface TokenExtensions {
+  types: string[];
+  transferFee?: TransferFeeExtension;
+  permanentDelegate?: string | null;
+  nonTransferable?: boolean;
+  defaultAccountState?: string;
+  transferHook?: TransferHookExtension;
+  metadataPointer?: MetadataPointerExtension;
+  mintCloseAuthority?: string | null;
+}
+
+// Metadata stored directly on the mint by the token-metadata extension
+export type OnMintMetadata = Pick<MetaplexMetadata, 'name' | 'symbol' | 'uri' | 'mint' | 'isMutable'> & {
+  updateAuthority?: string;
+  additionalMetadata: Array<[string, string]>;
+};
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function numberOrZero(value: unknown): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+function parseTransferFee(state: Record<string, unknown>): TransferFeeExtension {
+  // The newer fee is the one that is (or will become) effective, which is
+  // what matters when judging how much a holder can lose on transfer
+  const fee = (state.newerTransferFee || state.olderTransferFee || {}) as Record<string, unknown>;
+  return {
+    basisPoints: numberOrZero(fee.transferFeeBasisPoints),
+    maximumFee: String(fee.maximumFee ?? '0'),
+    epoch: numberOrZero(fee.epoch),
+    configAuthority: stringOrNull(state.transferFeeConfigAuthority),
+    withdrawAuthority: stringOrNull(state.withdrawWithheldAuthority),
+  };
+}
+
+export function parseMintExtensions(extensions: ParsedMintExtension[]): TokenExtensions {
+  const result: TokenExtensions = { types: [] };
+
+  for (const { extension, state = {} } of extensions) {
+    result.types.push(extension);
+
+    switch (extension) {
+      case 'transferFeeConfig':
+        result.transferFee = parseTransferFee(state);
+        break;
+      case 'permanentDelegate':
+        result.permanentDelegate = stringOrNull(state.delegate);
+        break;
+      case 'nonTransferable':
+        result.nonTransferable = true;
+        break;
+      case 'defaultAccountState':
+        result.defaultAccountState = String(state.accountState ?? 'unknown');
+        break;
+      case 'transferHook':
+        result.transferHook = {
+          programId: stringOrNull(state.programId),
+          authority: stringOrNull(state.authority),
+        };
+        break;
+      case 'metadataPointer':
+        result.metadataPointer = {
+          metadataAddress: stringOrNull(state.metadataAddress),
+          authority: stringOrNull(state.authority),
+        };
+        break;
+      case 'mintCloseAuthority':
+        result.mintCloseAuthority = stringOrNull(state.closeAuthority);
+        break;
+    }
+  }
+
+  return result;
+}
+
+// Read the token-metadata extension from the mint, if present
+export function parseOnMintMetadata(extensions: ParsedMintExtension[]): OnMintMetadata | null {
+  const entry = extensions.find(ext => ext.extension === 'tokenMetadata');
+  if (!entry?.state) return null;
+
+  const state = entry.state;
+  const updateAuthority = stringOrNull(state.updateAuthority) ?? undefined;
+  const additionalMetadata = Array.isArray(state.additionalMetadata)
+    ? (state.additionalMetadata as unknown[])
+        .filter((pair): pair is [string, string] =>
+          Array.isArray(pair) && typeof pair[0] === 'string' && typeof pair[1] === 'string'
+        )
+    : [];
+
+  return {
+    name: String(state.name ?? '').replace(/\0/g, '').trim(),
+    symbol: String(state.symbol ?? '').replace(/\0/g, '').trim(),
+    uri: String(state.uri ?? '').replace(/\0/g, '').trim(),
+    mint: String(state.mint ?? ''),
+    updateAuthority,
+    // Without an update authority the metadata can no longer be changed
+    isMutable: Boolean(updateAuthority),
+    additionalMetadata,
+  };
+}
+
+// Extensions that let the issuer take, block or tax holders' tokens
+export function getRiskyExtensions(extensions?: TokenExtensions): string[] {
+  if (!extensions) return [];
+
+  const risky: string[] = [];
+  if (extensions.transferFee && extensions.transferFee.basisPoints > 0) {
+    risky.push(`Transfer fee ${(extensions.transferFee.basisPoints / 100).toFixed(2)}%`);
+  }
+  if (extensions.permanentDelegate) risky.push('Permanent delegate');
+  if (extensions.nonTransferable) risky.push('Non-transferable');
+  if (extensions.defaultAccountState === 'frozen') risky.push('Accounts frozen by default');
+  if (extensions.transferHook?.programId) risky.push('Transfer hook');
+  return risky;
+}
@@ -0,0 +1,317 @@
+import type {
+  AccountInfo,
+  ConfirmedSignatureInfo,
+  GetProgramAccountsFilter,
+  ParsedAccountData,
+  ParsedTransactionWithMeta,
+  SignaturesForAddressOptions,
+  TokenAccountBalancePair,
+  TokenAmount,
+} from '@solana/web3.js';
+import { createFixtureProvider, loadTokenDataFixture } from './fixtureProvider';
+import { createHeliusProvider } from './heliusProvider';
+import { fetchOffChainMetadata, OffChainMetadata } from './offchainMetadata';
+import { createRequestScheduler, RequestScheduler } from './requestScheduler';
+import { createRpcProvider, RpcProviderOptions } from './rpcProvider';
+import {
+  createRecording,
+  createRecordingFetch,
+  createRecordingMetadataFetch,
+  createReplayFetch,
+  createReplayMetadataFetch,
+  loadRecording,
+  RpcRecording,
+  RpcRecordingMode,
+  saveRecording,
+} from './rpcRecording';
+import { switchToInMemoryTokenIndex } from './tokenIndex';
+import { logError } from './logger';
+
+// Asset as returned by the Digital Asset Standard (DAS) API
+export interface DasAsset {
+  interface: string;
+  id: string;
+  content: {
+    metadata: {
+      name: string;
+      symbol: string;
+      description?: string;
+    };
+    json_uri?: string;
+    links?: {
+      image?: string;
+      external_url?: string;
+    };
+  };
+  authorities?: Array<{
+    address: string;
+    scopes: string[];
+  }>;
+  compression: {
+    compressed: boolean;
+    data_hash: string;
+    creator_hash: string;
+    asset_hash: string;
+    tree: string;
+    seq: number;
+    leaf_id: number;
+  };
+  grouping?: Array<{
+    group_key: string;
+    group_value: string;
+  }>;
+  royalty: {
+    royalty_model: string;
+    target: null | number;
+    percent: number;
+    basis_points: number;
+    primary_sale_happened: boolean;
+    locked: boolean;
+  };
+  supply: {
+    print_max_supply: number;
+    print_current_supply: number;
+    edition_nonce: number;
+  };
+  mutable: boolean;
+  burnt: boolean;
+  token_info?: {
+    balance?: string;
+    supply?: string;
+    decimals?: number;
+    mint?: string;
+    token_program?: string;
+    mint_authority?: string;
+    freeze_authority?: string;
+  };
+  ownership: {
+    frozen: boolean;
+    delegated: boolean;
+    delegate: null | string;
+    owner: string;
+    ownership_model: string;
+  };
+  created_at?: string;
+  updated_at?: string;
+}
+
+
+export interface DasAssetPage {
+  items: DasAsset[];
+  total: number;
+  limit: number;
+  page: number;
+}
+
+export interface DasTokenAccount {
+  address: string;
+  mint: string;
+  owner: string;
+  amount: number;
+}
+
+export interface DasTokenAccountPage {
+  total: number;
+  limit: number;
+  page: number;
+  token_accounts: DasTokenAccount[];
+}
+
+export type ParsedAccount = AccountInfo<Buffer | ParsedAccountData>;
+
+export interface ProgramAccount {
+  pubkey: string;
+  account: AccountInfo<Buffer>;
+}
+
+export interface LogsNotification {
+  signature: string;
+  err: unknown;
+  logs: string[];
+}
+
+// Everything helius.ts reads from the chain. Addresses are base58 strings.
+// Implementations are plain objects so tests can supply their own.
+export interface TokenDataProvider {
+  readonly name: string;
+  getAccountInfo(address: string): Promise<AccountInfo<Buffer> | null>;
+  getParsedAccountInfo(address: string): Promise<ParsedAccount | null>;
+  getMultipleParsedAccounts(addresses: string[]): Promise<Array<ParsedAccount | null>>;
+  // Newest first, like the getSignaturesForAddress RPC method
+  getSignaturesForAddress(address: string, options?: SignaturesForAddressOptions): Promise<ConfirmedSignatureInfo[]>;
+  getParsedTransaction(signature: string): Promise<ParsedTransactionWithMeta | null>;
+  getTokenSupply(mint: string): Promise<TokenAmount>;
+  getTokenLargestAccounts(mint: string): Promise<TokenAccountBalancePair[]>;
+  // Raw accounts owned by a program, narrowed by dataSize and memcmp filters
+  getProgramAccounts(programId: string, filters: GetProgramAccountsFilter[]): Promise<ProgramAccount[]>;
+  // Off-chain JSON metadata at an http(s) URL, null when it cannot be read
+  fetchOffChainMetadata(url: string): Promise<OffChainMetadata | null>;
+  // DAS methods resolve to null on providers without DAS support
+  getAssetsBySymbol(symbol: string, page: number, limit: number): Promise<DasAssetPage | null>;
+  getTokenAccounts(mint: string, page: number, limit: number): Promise<DasTokenAccountPage | null>;
+  // Stream a program's confirmed logs. Returns an unsubscribe function.
+  onLogs(programId: string, callback: (notification: LogsNotification) => void): () => void;
+}
+
+export type TokenDataProviderKind = 'helius' | 'rpc' | 'fixture';
+
+const PROVIDER_KINDS: TokenDataProviderKind[] = ['helius', 'rpc', 'fixture'];
+
+// Provider selection. TOKEN_DATA_PROVIDER picks one explicitly; otherwise
+// Helius is used when its key is set, then a plain RPC endpoint. The Helius
+// key is server-only and must never be exposed through a NEXT_PUBLIC_ variable.
+const TOKEN_DATA_PROVIDER = process.env.TOKEN_DATA_PROVIDER;
+const HELIUS_API_KEY = process.env.HELIUS_API_KEY;
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL;
+const TOKEN_FIXTURE_PATH = process.env.TOKEN_FIXTURE_PATH;
+
+// RPC_RECORDING_MODE=record saves every JSON-RPC exchange to
+// RPC_RECORDING_PATH; replay serves them back without network access
+const RPC_RECORDING_MODE = process.env.RPC_RECORDING_MODE as RpcRecordingMode | undefined;
+const RPC_RECORDING_PATH = process.env.RPC_RECORDING_PATH;
+
+// Batch recording writes instead of rewriting the file on every request
+const RECORDING_SAVE_DELAY_MS = 500;
+
+export function getConfiguredProviderKind(): TokenDataProviderKind | null {
+  if (TOKEN_DATA_PROVIDER) {
+    return PROVIDER_KINDS.includes(TOKEN_DATA_PROVIDER as TokenDataProviderKind)
+      ? TOKEN_DATA_PROVIDER as TokenDataProviderKind
+      : null;
+  }
+  if (HELIUS_API_KEY) return 'helius';
+  if (SOLANA_RPC_URL) return 'rpc';
+  return null;
+}
+
+export function isTokenDataProviderConfigured(): boolean {
+  if (RPC_RECORDING_MODE === 'replay') return Boolean(RPC_RECORDING_PATH);
+
+  switch (getConfiguredProviderKind()) {
+    case 'helius':
+      return Boolean(HELIUS_API_KEY);
+    case 'rpc':
+      return Boolean(SOLANA_RPC_URL);
+    case 'fixture':
+      return Boolean(TOKEN_FIXTURE_PATH);
+    default:
+      return false;
+  }
+}
+
+// Provider that answers from a recording instead of the network. The
+// endpoint and key are never contacted, so placeholders do. Replays should
+// run against an empty token index, as the recording did; see
+// switchToInMemoryTokenIndex.
+export function createReplayProvider(recording: RpcRecording): TokenDataProvider {
+  const options = {
+    fetch: createReplayFetch(recording),
+    fetchOffChainMetadata: createReplayMetadataFetch(recording),
+  };
+  return recording.provider === 'helius'
+    ? createHeliusProvider('replay', { ...options, name: 'helius-replay' })
+    : createRpcProvider('http://replay.invalid', { ...options, name: 'rpc-replay' });
+}
+
+interface Recorder {
+  fetch: typeof fetch;
+  fetchOffChainMetadata: (url: string) => Promise<OffChainMetadata | null>;
+}
+
+let environmentRecorder: Recorder | null = null;
+
+// With RPC_RECORDING_MODE=record, one recording is shared by every network
+// provider. It starts from an empty in-memory index, like the replay will.
+function getEnvironmentRecorder(kind: TokenDataProviderKind): Recorder | null {
+  if (RPC_RECORDING_MODE !== 'record' || !RPC_RECORDING_PATH) return null;
+  if (environmentRecorder) return environmentRecorder;
+
+  switchToInMemoryTokenIndex();
+  const file = RPC_RECORDING_PATH;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  const scheduleSave = (recording: RpcRecording) => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      try {
+        saveRecording(file, recording);
+      } catch (error) {
+        logError('Error saving RPC recording:', error);
+      }
+    }, RECORDING_SAVE_DELAY_MS);
+  };
+
+  const recording = createRecording(kind);
+  environmentRecorder = {
+    fetch: createRecordingFetch(recording, fetch, scheduleSave),
+    fetchOffChainMetadata: createRecordingMetadataFetch(recording, fetchOffChainMetadata, scheduleSave),
+  };
+  return environmentRecorder;
+}
+
+// Shared by every network provider so they draw from one set of rate limits
+let requestScheduler: RequestScheduler | null = null;
+
+// Fetch options for a provider that talks to the network: requests go through
+// the scheduler, which handles 429s itself, and are recorded when enabled
+function createNetworkOptions(kind: TokenDataProviderKind): RpcProviderOptions {
+  const recorder = getEnvironmentRecorder(kind);
+  if (!requestScheduler) {
+    requestScheduler = createRequestScheduler(recorder?.fetch ?? fetch);
+  }
+  return {
+    fetch: requestScheduler.fetch,
+    disableRetryOnRateLimit: true,
+    fetchOffChainMetadata: recorder?.fetchOffChainMetadata,
+  };
+}
+
+// Build the provider named by the environment
+export function createTokenDataProvider(kind = getConfiguredProviderKind()): TokenDataProvider {
+  if (RPC_RECORDING_MODE === 'replay') {
+    if (!RPC_RECORDING_PATH) throw new Error('RPC_RECORDING_PATH is not set in environment variables');
+    const recording = loadRecording(RPC_RECORDING_PATH);
+    // Checkpoints and geneses stored by other runs would change the requests
+    switchToInMemoryTokenIndex();
+    return createReplayProvider(recording);
+  }
+
+  switch (kind) {
+    case 'helius':
+      if (!HELIUS_API_KEY) throw new Error('HELIUS_API_KEY is not set in environment variables');
+      return createHeliusProvider(HELIUS_API_KEY, createNetworkOptions(kind));
+    case 'rpc':
+      if (!SOLANA_RPC_URL) throw new Error('SOLANA_RPC_URL is not set in environment variables');
+      return createRpcProvider(SOLANA_RPC_URL, createNetworkOptions(kind));
+    case 'fixture':
+      if (!TOKEN_FIXTURE_PATH) throw new Error('TOKEN_FIXTURE_PATH is not set in environment variables');
+      return createFixtureProvider(loadTokenDataFixture(TOKEN_FIXTURE_PATH));
+    default:
+      throw new Error(
+        TOKEN_DATA_PROVIDER
+          ? `Unknown TOKEN_DATA_PROVIDER "${TOKEN_DATA_PROVIDER}"`
+          : 'No token data provider is configured'
+      );
+  }
+}
+
+// Provider for an endpoint chosen at runtime rather than by the environment,
+// such as the CLI's --rpc flag. Helius mainnet URLs keep DAS support.
+export function createEndpointProvider(url: string): TokenDataProvider {
+  const { hostname, searchParams } = new URL(url);
+  const heliusKey = hostname === 'mainnet.helius-rpc.com' ? searchParams.get('api-key') : null;
+  return heliusKey
+    ? createHeliusProvider(heliusKey, createNetworkOptions('helius'))
+    : createRpcProvider(url, createNetworkOptions('rpc'));
+}
+
+// Provider is created lazily so importing this module never throws
+let defaultProvider: TokenDataProvider | null = null;
+
+// The provider used when a caller does not pass one in
+export function getTokenDataProvider(): TokenDataProvider {
+  if (!defaultProvider) {
+    defaultProvider = createTokenDataProvider();
+  }
+  return defaultProvider;
+}
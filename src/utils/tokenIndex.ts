@@ -0,0 +1,430 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { TokenCreator, TokenInfo } from './helius';
+import { deserializeTokenInfo, serializeTokenInfo, SerializedTokenInfo } from './api';
+
+// Persistent SQLite index of every mint we have discovered
+const TOKEN_INDEX_PATH = process.env.TOKEN_INDEX_PATH;
+
+// Used when TOKEN_INDEX_PATH is not set. The CLI moves it to a user cache
+// directory, since it runs from any directory.
+let defaultIndexPath = path.join(process.cwd(), '.data', 'token-index.db');
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tokens (
+    address TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    uri TEXT,
+    program_id TEXT,
+    first_seen_slot INTEGER,
+    first_seen_time INTEGER,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS tokens_fts USING fts5(
+    name, symbol, address UNINDEXED,
+    content='tokens', content_rowid='rowid',
+    tokenize='unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS tokens_ai AFTER INSERT ON tokens BEGIN
+    INSERT INTO tokens_fts(rowid, name, symbol, address) VALUES (new.rowid, new.name, new.symbol, new.address);
+  END;
+  CREATE TRIGGER IF NOT EXISTS tokens_ad AFTER DELETE ON tokens BEGIN
+    INSERT INTO tokens_fts(tokens_fts, rowid, name, symbol, address) VALUES ('delete', old.rowid, old.name, old.symbol, old.address);
+  END;
+  CREATE TRIGGER IF NOT EXISTS tokens_au AFTER UPDATE ON tokens BEGIN
+    INSERT INTO tokens_fts(tokens_fts, rowid, name, symbol, address) VALUES ('delete', old.rowid, old.name, old.symbol, old.address);
+    INSERT INTO tokens_fts(rowid, name, symbol, address) VALUES (new.rowid, new.name, new.symbol, new.address);
+  END;
+
+  CREATE TABLE IF NOT EXISTS crawler_checkpoints (
+    program_id TEXT PRIMARY KEY,
+    newest_signature TEXT,
+    newest_slot INTEGER,
+    oldest_signature TEXT,
+    oldest_slot INTEGER,
+    backfill_complete INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS crawler_gaps (
+    program_id TEXT NOT NULL,
+    newer_signature TEXT NOT NULL,
+    newer_slot INTEGER NOT NULL,
+    older_signature TEXT NOT NULL,
+    older_slot INTEGER NOT NULL,
+    PRIMARY KEY (program_id, older_signature)
+  );
+
+  CREATE TABLE IF NOT EXISTS mint_genesis (
+    address TEXT PRIMARY KEY,
+    signature TEXT NOT NULL,
+    slot INTEGER NOT NULL,
+    block_time INTEGER,
+    deployer TEXT NOT NULL,
+    initial_mint_authority TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS api_usage (
+    client_id TEXT NOT NULL,
+    day TEXT NOT NULL,
+    endpoint TEXT NOT NULL,
+    requests INTEGER NOT NULL DEFAULT 0,
+    errors INTEGER NOT NULL DEFAULT 0,
+    rpc_requests INTEGER NOT NULL DEFAULT 0,
+    rpc_credits INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (client_id, day, endpoint)
+  );
+`;
+
+// Signature range of a token program the crawler has processed, except for
+// the gaps it left when it fell too far behind the head
+export interface CrawlerCheckpoint {
+  programId: string;
+  newestSignature: string | null;
+  newestSlot: number | null;
+  oldestSignature: string | null;
+  oldestSlot: number | null;
+  backfillComplete: boolean;
+  // Newest first
+  gaps: CrawlerGap[];
+}
+
+// Signatures strictly between the two ends have not been crawled yet
+export interface CrawlerGap {
+  newerSignature: string;
+  newerSlot: number;
+  olderSignature: string;
+  olderSlot: number;
+}
+
+// A stretch of history with every signature crawled, both ends included. A
+// null older end means it runs back to the program's first signature.
+export interface CrawledRange {
+  newerSignature: string;
+  newerSlot: number;
+  olderSignature: string | null;
+  olderSlot: number | null;
+}
+
+// Requests one API client made to one endpoint on one UTC day
+export interface ApiUsageEntry {
+  day: string;
+  endpoint: string;
+  requests: number;
+  // Responses with a 4xx or 5xx status
+  errors: number;
+  // RPC traffic the requests caused
+  rpcRequests: number;
+  rpcCredits: number;
+}
+
+export interface IndexStats {
+  tokens: number;
+  checkpoints: CrawlerCheckpoint[];
+}
+
+interface TokenRow {
+  data: string;
+  first_seen_time: number | null;
+  genesis_time: number | null;
+}
+
+interface GenesisRow {
+  signature: string;
+  slot: number;
+  block_time: number | null;
+  deployer: string;
+  initial_mint_authority: string | null;
+}
+
+interface CheckpointRow {
+  program_id: string;
+  newest_signature: string | null;
+  newest_slot: number | null;
+  oldest_signature: string | null;
+  oldest_slot: number | null;
+  backfill_complete: number;
+}
+
+interface GapRow {
+  newer_signature: string;
+  newer_slot: number;
+  older_signature: string;
+  older_slot: number;
+}
+
+let db: Database.Database | null = null;
+let inMemory = false;
+
+function getDb(): Database.Database {
+  if (!db) {
+    const file = inMemory ? ':memory:' : TOKEN_INDEX_PATH || defaultIndexPath;
+    if (!inMemory) fs.mkdirSync(path.dirname(file), { recursive: true });
+    db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+  }
+  return db;
+}
+
+// Takes effect only before the index is first opened
+export function setDefaultTokenIndexPath(file: string) {
+  defaultIndexPath = file;
+}
+
+// Close the index and continue with an empty one in memory. Recording and
+// replaying RPC traffic use this, so the requests a lookup makes do not depend
+// on checkpoints and geneses stored by earlier runs.
+export function switchToInMemoryTokenIndex() {
+  db?.close();
+  db = null;
+  inMemory = true;
+}
+
+function rowToToken(row: TokenRow): TokenInfo {
+  const token = deserializeTokenInfo(JSON.parse(row.data) as SerializedTokenInfo);
+  // The initialize-mint transaction is authoritative; otherwise the earliest
+  // time we saw the mint wins over whatever the stored copy says
+  if (row.genesis_time) {
+    token.mintDate = new Date(row.genesis_time * 1000);
+  } else if (row.first_seen_time && (!token.mintDate || token.mintDate.getTime() > row.first_seen_time * 1000)) {
+    token.mintDate = new Date(row.first_seen_time * 1000);
+  }
+  return token;
+}
+
+// Insert or refresh a token. First-seen slot and time only ever move earlier.
+export function upsertToken(token: TokenInfo, slot?: number | null) {
+  const blockTime = token.mintDate ? Math.floor(token.mintDate.getTime() / 1000) : null;
+
+  getDb().prepare(`
+    INSERT INTO tokens (address, name, symbol, uri, program_id, first_seen_slot, first_seen_time, data, updated_at)
+    VALUES (@address, @name, @symbol, @uri, @programId, @slot, @blockTime, @data, @now)
+    ON CONFLICT(address) DO UPDATE SET
+      name = excluded.name,
+      symbol = excluded.symbol,
+      uri = excluded.uri,
+      program_id = COALESCE(excluded.program_id, tokens.program_id),
+      first_seen_slot = MIN(COALESCE(tokens.first_seen_slot, excluded.first_seen_slot), COALESCE(excluded.first_seen_slot, tokens.first_seen_slot)),
+      first_seen_time = MIN(COALESCE(tokens.first_seen_time, excluded.first_seen_time), COALESCE(excluded.first_seen_time, tokens.first_seen_time)),
+      data = excluded.data,
+      updated_at = excluded.updated_at
+  `).run({
+    address: token.address,
+    name: token.name,
+    symbol: token.symbol,
+    uri: token.metadata?.uri ?? null,
+    programId: token.programId ?? null,
+    slot: slot ?? null,
+    blockTime,
+    data: JSON.stringify(serializeTokenInfo(token)),
+    now: Math.floor(Date.now() / 1000),
+  });
+}
+
+export function getIndexedToken(address: string): TokenInfo | null {
+  const row = getDb()
+    .prepare(`
+      SELECT tokens.data, tokens.first_seen_time, mint_genesis.block_time AS genesis_time
+      FROM tokens
+      LEFT JOIN mint_genesis ON mint_genesis.address = tokens.address
+      WHERE tokens.address = ?
+    `)
+    .get(address) as TokenRow | undefined;
+  return row ? rowToToken(row) : null;
+}
+
+// Turn free text into an FTS5 query: every word must match as a prefix
+function toFtsQuery(query: string): string | null {
+  const terms = query
+    .toLowerCase()
+    .split(/[\s_-]+/)
+    .map(term => term.replace(/"/g, '').trim())
+    .filter(Boolean);
+  if (terms.length === 0) return null;
+  return terms.map(term => `"${term}"*`).join(' ');
+}
+
+// Full-text search over indexed names and symbols, best matches first.
+// Exact mint addresses are looked up directly.
+export function searchIndex(query: string, limit = 50): TokenInfo[] {
+  const trimmed = query.trim();
+  const exact = getIndexedToken(trimmed);
+  if (exact) return [exact];
+
+  const ftsQuery = toFtsQuery(trimmed);
+  if (!ftsQuery) return [];
+
+  const rows = getDb().prepare(`
+    SELECT tokens.data, tokens.first_seen_time, mint_genesis.block_time AS genesis_time
+    FROM tokens_fts
+    JOIN tokens ON tokens.rowid = tokens_fts.rowid
+    LEFT JOIN mint_genesis ON mint_genesis.address = tokens.address
+    WHERE tokens_fts MATCH ?
+    ORDER BY bm25(tokens_fts, 1.0, 2.0), tokens.first_seen_time DESC
+    LIMIT ?
+  `).all(ftsQuery, limit) as TokenRow[];
+
+  return rows.map(rowToToken);
+}
+
+// A mint's initialize-mint transaction never changes, so once resolved it is
+// kept for good
+export function getMintGenesis(address: string): TokenCreator | null {
+  const row = getDb()
+    .prepare('SELECT * FROM mint_genesis WHERE address = ?')
+    .get(address) as GenesisRow | undefined;
+  if (!row) return null;
+
+  return {
+    deployer: row.deployer,
+    initialMintAuthority: row.initial_mint_authority,
+    signature: row.signature,
+    slot: row.slot,
+    blockTime: row.block_time,
+  };
+}
+
+export function saveMintGenesis(address: string, genesis: TokenCreator) {
+  getDb().prepare(`
+    INSERT OR IGNORE INTO mint_genesis (address, signature, slot, block_time, deployer, initial_mint_authority)
+    VALUES (@address, @signature, @slot, @blockTime, @deployer, @initialMintAuthority)
+  `).run({ address, ...genesis });
+}
+
+export function getCheckpoint(programId: string): CrawlerCheckpoint | null {
+  const row = getDb()
+    .prepare('SELECT * FROM crawler_checkpoints WHERE program_id = ?')
+    .get(programId) as CheckpointRow | undefined;
+  if (!row) return null;
+
+  const gaps = getDb()
+    .prepare('SELECT * FROM crawler_gaps WHERE program_id = ? ORDER BY newer_slot DESC')
+    .all(programId) as GapRow[];
+
+  return {
+    programId: row.program_id,
+    newestSignature: row.newest_signature,
+    newestSlot: row.newest_slot,
+    oldestSignature: row.oldest_signature,
+    oldestSlot: row.oldest_slot,
+    backfillComplete: row.backfill_complete === 1,
+    gaps: gaps.map(gap => ({
+      newerSignature: gap.newer_signature,
+      newerSlot: gap.newer_slot,
+      olderSignature: gap.older_signature,
+      olderSlot: gap.older_slot,
+    })),
+  };
+}
+
+// Save the checkpoint and its gaps together, so a crash cannot leave a gap
+// that the saved range does not account for
+export function saveCheckpoint(checkpoint: CrawlerCheckpoint) {
+  const database = getDb();
+  database.transaction(() => {
+    database.prepare(`
+      INSERT INTO crawler_checkpoints
+        (program_id, newest_signature, newest_slot, oldest_signature, oldest_slot, backfill_complete, updated_at)
+      VALUES (@programId, @newestSignature, @newestSlot, @oldestSignature, @oldestSlot, @backfillComplete, @now)
+      ON CONFLICT(program_id) DO UPDATE SET
+        newest_signature = excluded.newest_signature,
+        newest_slot = excluded.newest_slot,
+        oldest_signature = excluded.oldest_signature,
+        oldest_slot = excluded.oldest_slot,
+        backfill_complete = excluded.backfill_complete,
+        updated_at = excluded.updated_at
+    `).run({
+      programId: checkpoint.programId,
+      newestSignature: checkpoint.newestSignature,
+      newestSlot: checkpoint.newestSlot,
+      oldestSignature: checkpoint.oldestSignature,
+      oldestSlot: checkpoint.oldestSlot,
+      backfillComplete: checkpoint.backfillComplete ? 1 : 0,
+      now: Math.floor(Date.now() / 1000),
+    });
+
+    database.prepare('DELETE FROM crawler_gaps WHERE program_id = ?').run(checkpoint.programId);
+    const insertGap = database.prepare(`
+      INSERT INTO crawler_gaps (program_id, newer_signature, newer_slot, older_signature, older_slot)
+      VALUES (@programId, @newerSignature, @newerSlot, @olderSignature, @olderSlot)
+    `);
+    for (const gap of checkpoint.gaps) {
+      insertGap.run({ programId: checkpoint.programId, ...gap });
+    }
+  })();
+}
+
+// The fully crawled stretches of a checkpoint, newest first
+export function getCrawledRanges(checkpoint: CrawlerCheckpoint): CrawledRange[] {
+  if (!checkpoint.newestSignature || !checkpoint.oldestSignature) return [];
+
+  const ranges: CrawledRange[] = [];
+  let newer = { signature: checkpoint.newestSignature, slot: checkpoint.newestSlot ?? 0 };
+  for (const gap of checkpoint.gaps) {
+    ranges.push({
+      newerSignature: newer.signature,
+      newerSlot: newer.slot,
+      olderSignature: gap.newerSignature,
+      olderSlot: gap.newerSlot,
+    });
+    newer = { signature: gap.olderSignature, slot: gap.olderSlot };
+  }
+  ranges.push({
+    newerSignature: newer.signature,
+    newerSlot: newer.slot,
+    olderSignature: checkpoint.backfillComplete ? null : checkpoint.oldestSignature,
+    olderSlot: checkpoint.backfillComplete ? null : checkpoint.oldestSlot,
+  });
+  return ranges;
+}
+
+export function recordApiUsage(
+  clientId: string,
+  endpoint: string,
+  usage: { failed: boolean; rpcRequests: number; rpcCredits: number },
+  now = new Date()
+) {
+  getDb().prepare(`
+    INSERT INTO api_usage (client_id, day, endpoint, requests, errors, rpc_requests, rpc_credits)
+    VALUES (@clientId, @day, @endpoint, 1, @errors, @rpcRequests, @rpcCredits)
+    ON CONFLICT(client_id, day, endpoint) DO UPDATE SET
+      requests = api_usage.requests + 1,
+      errors = api_usage.errors + excluded.errors,
+      rpc_requests = api_usage.rpc_requests + excluded.rpc_requests,
+      rpc_credits = api_usage.rpc_credits + excluded.rpc_credits
+  `).run({
+    clientId,
+    day: now.toISOString().slice(0, 10),
+    endpoint,
+    errors: usage.failed ? 1 : 0,
+    rpcRequests: usage.rpcRequests,
+    rpcCredits: usage.rpcCredits,
+  });
+}
+
+// A client's usage since the given UTC day (YYYY-MM-DD), newest first
+export function getApiUsage(clientId: string, sinceDay: string): ApiUsageEntry[] {
+  return getDb().prepare(`
+    SELECT day, endpoint, requests, errors, rpc_requests AS rpcRequests, rpc_credits AS rpcCredits
+    FROM api_usage
+    WHERE client_id = ? AND day >= ?
+    ORDER BY day DESC, endpoint
+  `).all(clientId, sinceDay) as ApiUsageEntry[];
+}
+
+export function getIndexStats(): IndexStats {
+  const { count } = getDb().prepare('SELECT COUNT(*) AS count FROM tokens').get() as { count: number };
+  const rows = getDb().prepare('SELECT program_id FROM crawler_checkpoints').all() as Array<{ program_id: string }>;
+  return {
+    tokens: count,
+    checkpoints: rows
+      .map(row => getCheckpoint(row.program_id))
+      .filter((checkpoint): checkpoint is CrawlerCheckpoint => checkpoint !== null),
+  };
+}
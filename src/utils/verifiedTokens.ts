@@ -0,0 +1,219 @@
+import fs from 'fs';
+import path from 'path';
+import { rewriteMetadataUri } from './offchainMetadata';
+import { logError } from './logger';
+
+// Verified tokens are read from a JSON file in the standard token-list format
+// (https://github.com/solana-labs/token-list). Results that reuse a verified
+// token's identity without being that mint are flagged as impersonators.
+const VERIFIED_TOKEN_LIST_PATH =
+  process.env.VERIFIED_TOKEN_LIST_PATH || path.join(process.cwd(), 'config', 'verified-tokens.json');
+
+// Solana mainnet in the token-list chainId convention
+const MAINNET_CHAIN_ID = 101;
+
+export interface TokenListEntry {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+}
+
+export interface TokenList {
+  name: string;
+  tokens: TokenListEntry[];
+}
+
+export type VerificationStatus = 'verified' | 'impersonator' | 'unverified';
+
+export interface TokenVerification {
+  status: VerificationStatus;
+  // The verified token this one is, or imitates
+  canonical?: Pick<TokenListEntry, 'address' | 'symbol' | 'name'>;
+  // Why the token was flagged, empty for verified and clean tokens
+  reasons: string[];
+}
+
+// Fields of a token we compare against the list. `rawName` and `rawSymbol`
+// are the unsanitized metadata values, which still contain any lookalike or
+// invisible characters.
+export interface VerificationInput {
+  address: string;
+  name: string;
+  symbol: string;
+  image?: string;
+  rawName?: string;
+  rawSymbol?: string;
+}
+
+// Characters from other scripts that render like Latin letters or digits.
+// Fullwidth and styled (math bold, script...) letters are folded by NFKC.
+const HOMOGLYPHS: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd',
+  'ɡ': 'g', 'ӏ': 'l', 'ո': 'n', 'ս': 'u',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'ζ': 'z', 'η': 'n', 'ι': 'i', 'κ': 'k', 'μ': 'u',
+  'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x',
+  // Digits and symbols standing in for letters
+  '0': 'o', '1': 'l', '|': 'l',
+};
+
+// Format characters (zero-width spaces and joiners, bidi controls, soft
+// hyphens) plus blank characters that are not classed as whitespace
+const INVISIBLE_CHARACTERS = /[\p{Cf}\u115F\u1160\u3164\uFFA0\u2800]/gu;
+
+let cachedList: { index: VerifiedIndex; loadedAt: number } | null = null;
+
+// Reload the file at most this often so edits are picked up without a restart
+const RELOAD_INTERVAL_MS = 60 * 1000;
+
+export interface VerifiedIndex {
+  byAddress: Map<string, TokenListEntry>;
+  bySymbol: Map<string, TokenListEntry>;
+  byName: Map<string, TokenListEntry>;
+  byLogo: Map<string, TokenListEntry>;
+}
+
+export function hasInvisibleCharacters(text: string): boolean {
+  return text.replace(INVISIBLE_CHARACTERS, '') !== text;
+}
+
+// Fold a name or symbol to the form a reader would perceive: strip invisible
+// characters, accents and punctuation, map lookalikes to Latin, lowercase
+export function normalizeForComparison(text: string): string {
+  return Array.from(
+    text
+      .normalize('NFKC')
+      .replace(INVISIBLE_CHARACTERS, '')
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+  )
+    .map(char => HOMOGLYPHS[char] ?? char)
+    .join('')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeLogo(uri?: string): string | null {
+  if (!uri) return null;
+  const url = rewriteMetadataUri(uri);
+  return url ? url.replace(/\/+$/, '').toLowerCase() : null;
+}
+
+function isTokenListEntry(value: unknown): value is TokenListEntry {
+  const entry = value as TokenListEntry;
+  return Boolean(entry) &&
+    typeof entry.address === 'string' &&
+    typeof entry.symbol === 'string' &&
+    typeof entry.name === 'string' &&
+    typeof entry.chainId === 'number';
+}
+
+export function parseTokenList(json: unknown): TokenList {
+  const list = json as Partial<TokenList> | null;
+  if (!list || !Array.isArray(list.tokens)) {
+    throw new Error('Token list must have a tokens array');
+  }
+
+  return {
+    name: typeof list.name === 'string' ? list.name : 'Verified tokens',
+    tokens: list.tokens.filter(isTokenListEntry).filter(token => token.chainId === MAINNET_CHAIN_ID),
+  };
+}
+
+function buildIndex(list: TokenList): VerifiedIndex {
+  const index: VerifiedIndex = {
+    byAddress: new Map(),
+    bySymbol: new Map(),
+    byName: new Map(),
+    byLogo: new Map(),
+  };
+
+  // The first entry wins when two verified tokens share a symbol or name
+  for (const token of list.tokens) {
+    index.byAddress.set(token.address, token);
+    const symbol = normalizeForComparison(token.symbol);
+    const name = normalizeForComparison(token.name);
+    const logo = normalizeLogo(token.logoURI);
+    if (symbol && !index.bySymbol.has(symbol)) index.bySymbol.set(symbol, token);
+    if (name && !index.byName.has(name)) index.byName.set(name, token);
+    if (logo && !index.byLogo.has(logo)) index.byLogo.set(logo, token);
+  }
+
+  return index;
+}
+
+function loadVerifiedIndex(): VerifiedIndex {
+  if (cachedList && Date.now() - cachedList.loadedAt < RELOAD_INTERVAL_MS) {
+    return cachedList.index;
+  }
+
+  let list: TokenList = { name: 'Verified tokens', tokens: [] };
+  try {
+    list = parseTokenList(JSON.parse(fs.readFileSync(VERIFIED_TOKEN_LIST_PATH, 'utf8')));
+  } catch (error) {
+    // Without a list nothing is verified and nothing is flagged
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logError('Error loading verified token list:', error);
+    }
+  }
+
+  cachedList = { index: buildIndex(list), loadedAt: Date.now() };
+  return cachedList.index;
+}
+
+// Describe how a copied field differs from the verified original
+function describeCopy(field: 'ticker' | 'name', raw: string, original: string): string {
+  if (hasInvisibleCharacters(raw)) return `Hides invisible characters in the ${field} "${original}"`;
+  if (raw.trim().toLowerCase() !== original.trim().toLowerCase()) {
+    return `Uses lookalike characters to imitate the ${field} "${original}"`;
+  }
+  return `Reuses the verified ${field} "${original}"`;
+}
+
+// Classify a token against a verified list. The index is built from the
+// configured file unless one is passed in.
+export function verifyToken(token: VerificationInput, index = loadVerifiedIndex()): TokenVerification {
+  const verified = index.byAddress.get(token.address);
+  if (verified) {
+    return {
+      status: 'verified',
+      canonical: { address: verified.address, symbol: verified.symbol, name: verified.name },
+      reasons: [],
+    };
+  }
+
+  const reasons: string[] = [];
+  let canonical: TokenListEntry | undefined;
+  const flag = (entry: TokenListEntry | undefined, reason: (entry: TokenListEntry) => string) => {
+    if (!entry) return;
+    canonical = canonical ?? entry;
+    reasons.push(reason(entry));
+  };
+
+  const rawSymbol = token.rawSymbol ?? token.symbol;
+  const rawName = token.rawName ?? token.name;
+  flag(index.bySymbol.get(normalizeForComparison(rawSymbol)), entry => describeCopy('ticker', rawSymbol, entry.symbol));
+  flag(index.byName.get(normalizeForComparison(rawName)), entry => describeCopy('name', rawName, entry.name));
+
+  const logo = normalizeLogo(token.image);
+  flag(logo ? index.byLogo.get(logo) : undefined, entry => `Copies the logo of ${entry.symbol}`);
+
+  if (!canonical) return { status: 'unverified', reasons: [] };
+
+  return {
+    status: 'impersonator',
+    canonical: { address: canonical.address, symbol: canonical.symbol, name: canonical.name },
+    reasons,
+  };
+}
+
+// Build an index from a list held in memory, e.g. for checking fixtures
+export function createVerifiedIndex(list: TokenList): VerifiedIndex {
+  return buildIndex(list);
+}